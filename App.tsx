@@ -1,342 +1,1361 @@
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { GoogleGenAI, Modality, Type, FunctionDeclaration } from '@google/genai';
-import { Personality, ChatMessage, VoiceState, SystemAction } from './types';
-import { decode, encode, decodeAudioData, createBlob } from './services/audio-utils';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Modality, Session } from '@google/genai';
+import { Persona, ChatMessage, ChatImage, VoiceState, VoiceSettings, SystemAction, BackendSettings, ConversationSummary, CustomAction, ActionPolicy, ActionRecord, Conversation, MemoryFact, MemorySettings, Reminder, GeminiKeySettings } from './types';
+import { decode, decodeAudioData, createBlob, createVad, INPUT_SAMPLE_RATE, OUTPUT_SAMPLE_RATE, Vad } from './services/audio-utils';
+import { startBargeInDetector, startMicCapture, MicCapture, MIC_CONSTRAINTS } from './services/audio-capture';
+import { matchWakePhrase, wakePhraseFor, DEFAULT_VOICE_SETTINGS } from './services/hands-free';
+import { startVideoCapture, VideoCapture, VideoSource } from './services/video-capture';
+import { downscaleImageFile, fromDataUrl, toDataUrl } from './services/images';
+import { createSessionRecorder, SessionRecorder } from './services/session-recorder';
+import { cuesFromMessages, toSrt, toVtt } from './services/subtitles';
+import { downloadFile, slugify } from './services/download';
+import { toJSONExport, toMarkdown } from './services/conversation-export';
+import { commandBeingTyped, parseSlashCommand, suggestCommands, unescapeCommand, usage, ParsedCommand, SLASH_COMMANDS } from './services/slash-commands';
+import { createInputHistory } from './services/input-history';
+import { languageInstruction, pickVoice } from './services/language';
+import { transliterate } from './services/transliteration';
+import { createOverlayPublisher, OverlayPublisher, OverlayState } from './services/overlay-sync';
+import { describeClose, isRetryableClose, reconnectDelay, LIVE_MODEL, MAX_RECONNECT_ATTEMPTS } from './services/live-connection';
+import { createProvider, BACKEND_LABELS, DEFAULT_BACKEND_SETTINGS, isBackendKind, LLMMessage, ToolCall } from './services/llm-provider';
+import { createOllamaEmbedder } from './services/ollama-provider';
+import { createLiveClient, geminiKeyProblem, DEFAULT_GEMINI_KEY_SETTINGS, LiveTokenError } from './services/gemini-client';
+import { announcement, describeReminders, findReminder, reminderFromArgs, formatDue, isReminderTool, notify, scheduleReminders, REMINDER_TOOLS } from './services/reminders';
+import { addMemory, describeRecall, isMemoryTool, memoryInstruction, rankFacts, searchHistory, DEFAULT_MEMORY_SETTINGS, MEMORY_TOOLS } from './services/memory';
+import { loadJSON, saveJSON } from './services/storage';
+import { buildContextWindow, summarizeOverflow, withSummary, EMPTY_SUMMARY } from './services/conversation-context';
+import { createSpeechQueue, SpeechQueue } from './services/speech-queue';
+import { analyserFrame, createWordPulse } from './services/lip-sync';
+import { createToolRegistry } from './services/tool-registry';
+import { createRateLimiter, defaultPolicy, describeOutcome, openActionUrl, ACTION_LOG_LIMIT } from './services/action-policy';
+import { findPersona, systemInstructionFor, BUILTIN_PERSONAS } from './services/personas';
+import { conversationTitle, deleteConversation, listConversations, migrateLegacyHistory, newConversation, patchConversation, saveConversation } from './services/conversation-store';
+import BackendSettingsPanel from './components/BackendSettingsPanel';
+import CustomActionsPanel from './components/CustomActionsPanel';
+import ActionCard from './components/ActionCard';
+import ActionLogPanel from './components/ActionLogPanel';
+import ConversationsPanel from './components/ConversationsPanel';
+import PersonaEditor from './components/PersonaEditor';
+import CharacterDisplay from './components/CharacterDisplay';
+import VoiceSettingsPanel from './components/VoiceSettingsPanel';
+import CommandPalette, { PaletteItem } from './components/CommandPalette';
+import MemoriesPanel from './components/MemoriesPanel';
+import RemindersPanel from './components/RemindersPanel';
+import GeminiKeyPanel from './components/GeminiKeyPanel';
 
+// Legacy single-conversation keys, migrated into IndexedDB on first load
 const STORAGE_KEY = 'ani_mate_chat_history';
+const BACKEND_STORAGE_KEY = 'ani_mate_backend_settings';
+const SUMMARY_STORAGE_KEY = 'ani_mate_context_summary';
+const ACTIONS_STORAGE_KEY = 'ani_mate_custom_actions';
+const POLICIES_STORAGE_KEY = 'ani_mate_action_policies';
+const ACTION_LOG_STORAGE_KEY = 'ani_mate_action_log';
+const PERSONAS_STORAGE_KEY = 'ani_mate_personas';
+const VOICE_SETTINGS_STORAGE_KEY = 'ani_mate_voice_settings';
+const INPUT_HISTORY_STORAGE_KEY = 'ani_mate_input_history';
+const MEMORIES_STORAGE_KEY = 'ani_mate_memories';
+const MEMORY_SETTINGS_STORAGE_KEY = 'ani_mate_memory_settings';
+const REMINDERS_STORAGE_KEY = 'ani_mate_reminders';
+const GEMINI_KEY_STORAGE_KEY = 'ani_mate_gemini_key';
+// At most this many assistant-issued actions per window, to stop runaway tool loops
+const ACTION_RATE_LIMIT = 4;
+const ACTION_RATE_WINDOW_MS = 20000;
+// How long an "ask" action waits for Allow/Deny before giving up
+const ACTION_CONFIRM_TIMEOUT_MS = 60000;
+// Follow-up requests allowed after tool results before we stop the loop
+const MAX_TOOL_ROUNDS = 3;
+// Lip-sync updates sent to the stream overlay, about 30 per second
+const OVERLAY_FRAME_MS = 33;
+// Attached images are downscaled to this size on their longest side
+const ATTACHMENT_MAX_SIZE = 1024;
+const MAX_ATTACHMENTS = 4;
+// Input transcription can trail the start of the reply by this much and still join the user's message
+const LATE_TRANSCRIPT_MS = 1500;
+// Mic frame length for the VAD, and how much audio from before it triggers is sent to Live along with the speech
+const MIC_FRAME_MS = 40;
+const PRE_ROLL_FRAMES = 8;
 
-const CharacterDisplay: React.FC<{ personality: Personality, isSpeaking: boolean, isLocal: boolean }> = ({ personality, isSpeaking, isLocal }) => {
-  const images = {
-    [Personality.FEMALE]: 'https://static.beebom.com/wp-content/uploads/2025/09/reze.jpg?w=1024',
-    [Personality.MALE]: 'https://images.unsplash.com/photo-1613333151422-791753347ad6?q=80&w=800&auto=format&fit=crop'
-  };
-
-  return (
-    <div className="relative w-full h-[55vh] flex items-center justify-center overflow-hidden rounded-3xl glass neon-border group">
-      <div className="scanline" />
-      <div className="absolute top-4 left-4 z-20 flex items-center gap-2">
-        <span className={`w-2 h-2 rounded-full ${isLocal ? 'bg-orange-500 shadow-[0_0_8px_rgba(249,115,22,0.8)]' : 'bg-cyan-500 shadow-[0_0_8px_rgba(6,182,212,0.8)]'}`} />
-        <span className="text-[10px] font-bold tracking-tighter uppercase text-slate-400">
-          {isLocal ? 'Local Mode (Ollama)' : 'Cloud Mode (Gemini)'}
-        </span>
-      </div>
-      <img
-        src={images[personality]}
-        alt="Anime Assistant"
-        className={`h-full w-full object-cover character-float transition-all duration-700 brightness-90 contrast-110 group-hover:scale-105 ${isSpeaking ? 'saturate-150 brightness-110' : ''}`}
-      />
-      <div className="absolute inset-0 bg-gradient-to-t from-slate-950 via-transparent to-transparent opacity-80" />
-      
-      {isSpeaking && (
-        <div className="absolute bottom-10 left-1/2 -translate-x-1/2 flex items-end gap-1.5 h-12 z-20">
-          {[...Array(8)].map((_, i) => (
-            <div 
-              key={i} 
-              className="w-1.5 bg-violet-400 rounded-full animate-bounce" 
-              style={{ 
-                height: `${Math.random() * 80 + 20}%`, 
-                animationDuration: `${Math.random() * 0.5 + 0.3}s`,
-                boxShadow: '0 0 10px rgba(167, 139, 250, 0.5)'
-              }} 
-            />
-          ))}
-        </div>
-      )}
-    </div>
-  );
-};
-
-const systemToolDeclarations: FunctionDeclaration[] = [
-  {
-    name: 'searchGoogle',
-    parameters: {
-      type: Type.OBJECT,
-      description: 'Search the web for information.',
-      properties: { query: { type: Type.STRING, description: 'The search term' } },
-      required: ['query']
-    }
-  },
-  {
-    name: 'openYoutube',
-    parameters: {
-      type: Type.OBJECT,
-      description: 'Open YouTube or search for a specific video.',
-      properties: { query: { type: Type.STRING, description: 'The video or channel to find' } },
-      required: ['query']
-    }
-  },
-  {
-    name: 'playMusic',
-    parameters: {
-      type: Type.OBJECT,
-      description: 'Play music from YouTube Music.',
-      properties: { query: { type: Type.STRING, description: 'Track or artist name' } },
-      required: ['query']
-    }
-  }
+// Shortcut buttons under the character, also listed in the command palette
+const QUICK_ACTIONS: { label: string, icon: string, action: SystemAction }[] = [
+  { label: 'Anime Music', icon: 'fas fa-play text-violet-400', action: { tool: 'playMusic', args: { query: 'japanese lofi' } } },
+  { label: 'YouTube', icon: 'fab fa-youtube text-red-500', action: { tool: 'openYoutube', args: { query: 'vtube highlights' } } }
 ];
 
 export default function App() {
-  const [personality, setPersonality] = useState<Personality>(Personality.FEMALE);
-  const [isLocalMode, setIsLocalMode] = useState(false);
-  const [messages, setMessages] = useState<ChatMessage[]>(() => {
-    try {
-      const saved = localStorage.getItem(STORAGE_KEY);
-      return saved ? JSON.parse(saved) : [];
-    } catch (e) {
-      console.error("Failed to load history", e);
-      return [];
-    }
+  const [personas, setPersonas] = useState<Persona[]>(() => {
+    const saved = loadJSON<Persona[]>(PERSONAS_STORAGE_KEY, []);
+    return saved.length ? saved : BUILTIN_PERSONAS;
   });
+  const [personaId, setPersonaId] = useState(BUILTIN_PERSONAS[0].id);
+  const [showPersonaEditor, setShowPersonaEditor] = useState(false);
+  const [personaSaveError, setPersonaSaveError] = useState('');
+  const persona = findPersona(personas, personaId);
+  const [backendSettings, setBackendSettings] = useState<BackendSettings>(() => {
+    const saved = loadJSON<Partial<BackendSettings>>(BACKEND_STORAGE_KEY, {});
+    return {
+      active: isBackendKind(saved.active) ? saved.active : DEFAULT_BACKEND_SETTINGS.active,
+      configs: { ...DEFAULT_BACKEND_SETTINGS.configs, ...saved.configs },
+      contextBudget: saved.contextBudget || DEFAULT_BACKEND_SETTINGS.contextBudget
+    };
+  });
+  const [showBackendSettings, setShowBackendSettings] = useState(false);
+  const [geminiKey, setGeminiKey] = useState<GeminiKeySettings>(() => ({ ...DEFAULT_GEMINI_KEY_SETTINGS, ...loadJSON(GEMINI_KEY_STORAGE_KEY, {}) }));
+  const [showGeminiKey, setShowGeminiKey] = useState(false);
+  const [customActions, setCustomActions] = useState<CustomAction[]>(() => loadJSON(ACTIONS_STORAGE_KEY, []));
+  const [showActions, setShowActions] = useState(false);
+  const [actionPolicies, setActionPolicies] = useState<Record<string, ActionPolicy>>(() => loadJSON(POLICIES_STORAGE_KEY, {}));
+  const [actionLog, setActionLog] = useState<ActionRecord[]>(() =>
+    // Nobody is waiting on confirmations left over from a previous page load
+    loadJSON<ActionRecord[]>(ACTION_LOG_STORAGE_KEY, []).map(r => r.status === 'pending' ? { ...r, status: 'expired' } : r)
+  );
+  const [showActionLog, setShowActionLog] = useState(false);
+  const [memories, setMemories] = useState<MemoryFact[]>(() => loadJSON(MEMORIES_STORAGE_KEY, []));
+  const [memorySettings, setMemorySettings] = useState<MemorySettings>(() => ({ ...DEFAULT_MEMORY_SETTINGS, ...loadJSON(MEMORY_SETTINGS_STORAGE_KEY, {}) }));
+  const [showMemories, setShowMemories] = useState(false);
+  const [reminders, setReminders] = useState<Reminder[]>(() => loadJSON(REMINDERS_STORAGE_KEY, []));
+  const [showReminders, setShowReminders] = useState(false);
+  const actionsById = useMemo(() => new Map(actionLog.map(r => [r.id, r])), [actionLog]);
+  const toolRegistry = useMemo(() => createToolRegistry(customActions), [customActions]);
+  const toolDeclarations = useMemo(
+    () => [...toolRegistry.declarations, ...REMINDER_TOOLS, ...(memorySettings.enabled ? MEMORY_TOOLS : [])],
+    [toolRegistry, memorySettings.enabled]
+  );
+  const isLocalMode = backendSettings.active !== 'gemini';
+  const provider = useMemo(() => createProvider(backendSettings, geminiKey), [backendSettings, geminiKey]);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const [showConversations, setShowConversations] = useState(false);
   const [voiceState, setVoiceState] = useState<VoiceState>({
     isActive: false,
     isThinking: false,
     isSpeaking: false,
-    transcription: ''
+    userTranscript: '',
+    assistantTranscript: '',
+    listenState: 'idle',
+    connection: 'closed',
+    connectionDetail: ''
   });
+  const [voiceSettings, setVoiceSettings] = useState<VoiceSettings>(() => ({ ...DEFAULT_VOICE_SETTINGS, ...loadJSON(VOICE_SETTINGS_STORAGE_KEY, {}) }));
+  const [showVoiceSettings, setShowVoiceSettings] = useState(false);
+  // The language setting overrides the persona's own
+  const language = voiceSettings.language || persona.language;
+  const systemInstruction = systemInstructionFor(persona, languageInstruction(voiceSettings.language, voiceSettings.script));
+  const display = (text: string) => transliterate(text, voiceSettings.script);
   const [inputText, setInputText] = useState('');
+  const [suggestionIndex, setSuggestionIndex] = useState(0);
+  const [showPalette, setShowPalette] = useState(false);
+  const [attachments, setAttachments] = useState<ChatImage[]>([]);
+  const [isDraggingImage, setIsDraggingImage] = useState(false);
+  // Camera or screen feed shown to the Live session
+  const [vision, setVision] = useState<VideoCapture | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  // The last finished recording, until it is downloaded or dismissed
+  const [lastRecording, setLastRecording] = useState<{ recorder: SessionRecorder, endedAt: number } | null>(null);
+  // Text of the reply currently streaming in, null when idle
+  const [streamingReply, setStreamingReply] = useState<string | null>(null);
 
-  // Persist messages to localStorage
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(messages));
-  }, [messages]);
+    saveJSON(BACKEND_STORAGE_KEY, backendSettings);
+  }, [backendSettings]);
+
+  useEffect(() => {
+    saveJSON(GEMINI_KEY_STORAGE_KEY, geminiKey);
+  }, [geminiKey]);
+
+  useEffect(() => {
+    saveJSON(ACTIONS_STORAGE_KEY, customActions);
+  }, [customActions]);
+
+  useEffect(() => {
+    // Uploaded avatars and sprites are data URLs, so a few large ones can fill localStorage
+    setPersonaSaveError(saveJSON(PERSONAS_STORAGE_KEY, personas) ? '' : "Browser storage is full, so these persona changes won't survive a reload. Remove some uploaded images or use image URLs instead.");
+  }, [personas]);
+
+  useEffect(() => {
+    saveJSON(VOICE_SETTINGS_STORAGE_KEY, voiceSettings);
+  }, [voiceSettings]);
+
+  useEffect(() => {
+    saveJSON(POLICIES_STORAGE_KEY, actionPolicies);
+  }, [actionPolicies]);
+
+  useEffect(() => {
+    saveJSON(ACTION_LOG_STORAGE_KEY, actionLog.slice(-ACTION_LOG_LIMIT));
+  }, [actionLog]);
+
+  useEffect(() => {
+    saveJSON(MEMORIES_STORAGE_KEY, memories);
+  }, [memories]);
+
+  useEffect(() => {
+    saveJSON(MEMORY_SETTINGS_STORAGE_KEY, memorySettings);
+  }, [memorySettings]);
+
+  useEffect(() => {
+    saveJSON(REMINDERS_STORAGE_KEY, reminders);
+  }, [reminders]);
 
   // Refs for audio and speech
-  const audioContexts = useRef<any>({ input: null, output: null, stream: null, nextStartTime: 0, sources: new Set() });
-  const sessionRef = useRef<any>(null);
+  const audioContexts = useRef<any>({ input: null, output: null, stream: null, analyser: null, nextStartTime: 0, sources: new Set() });
+  // The open Live session, null while connecting or reconnecting
+  const sessionRef = useRef<Promise<Session> | null>(null);
+  // The latest connection attempt, so callbacks of replaced connections can be ignored
+  const livePending = useRef<Promise<Session> | null>(null);
+  // True from the mic button until stop or a fatal error; dropped connections reconnect while set
+  const liveWanted = useRef(false);
+  const lastLiveError = useRef('');
+  const resumeHandle = useRef<string | null>(null);
+  const reconnectAttempt = useRef(0);
+  const reconnectTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
   const speechRecognition = useRef<any>(null);
   const chatEndRef = useRef<HTMLDivElement>(null);
+  const attachmentInput = useRef<HTMLInputElement>(null);
+  const textInput = useRef<HTMLInputElement>(null);
+  const inputHistory = useRef(createInputHistory(loadJSON<string[]>(INPUT_HISTORY_STORAGE_KEY, [])));
+  const visionRef = useRef<VideoCapture | null>(null);
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  // Mirrors the character to any open /overlay page, with the latest state for overlays that open later
+  const overlay = useRef<OverlayPublisher | null>(null);
+  const overlayLatest = useRef<{ persona: Persona, state: OverlayState } | null>(null);
+  const visionPreview = useRef<HTMLVideoElement>(null);
+  // Latest history and rolling summary, readable from long-lived speech callbacks
+  const messagesRef = useRef<ChatMessage[]>(messages);
+  const summaryRef = useRef<ConversationSummary>(EMPTY_SUMMARY);
+  // The open conversation as last written to IndexedDB
+  const activeConversation = useRef<Conversation | null>(null);
+  const hasLoadedConversations = useRef(false);
+  const isSummarizing = useRef(false);
+  const replyAbortRef = useRef<AbortController | null>(null);
+  const speechQueueRef = useRef<SpeechQueue | null>(null);
+  const isSpeakingLocal = useRef(false);
+  // Reminder announcements held back until the streaming reply has finished
+  const pendingAnnouncements = useRef<string[]>([]);
+  // Mic watchers on their own streams, each resolving to its stop function
+  const bargeInRef = useRef<Promise<() => void> | null>(null);
+  const handsFreeMic = useRef<Promise<() => void> | null>(null);
+  const handsFreeVad = useRef<Vad | null>(null);
+  // Hands-free session running, and whether the wake phrase has been heard for the next request
+  const handsFreeRef = useRef(false);
+  const awakeRef = useRef(false);
+  const voiceSettingsRef = useRef(voiceSettings);
+  // Transcripts of the Live turn in progress, with the times each side started speaking
+  const liveTurn = useRef<{ user: string, userAt: number, userMessage: ChatMessage | null, assistant: string, assistantAt: number }>(
+    { user: '', userAt: 0, userMessage: null, assistant: '', assistantAt: 0 }
+  );
+  // Mouth movement for local speech, approximated from word boundary events
+  const wordPulse = useRef(createWordPulse());
+  const actionPoliciesRef = useRef(actionPolicies);
+  // Read by memory tools, which Live calls from callbacks set up at connect time
+  const memoriesRef = useRef(memories);
+  const remindersRef = useRef(reminders);
+  const actionLimiter = useRef(createRateLimiter(ACTION_RATE_LIMIT, ACTION_RATE_WINDOW_MS));
+  // Resolvers for "ask" actions waiting on the Allow/Deny buttons
+  const pendingActions = useRef(new Map<string, (record: ActionRecord) => void>());
+
+  useEffect(() => {
+    actionPoliciesRef.current = actionPolicies;
+  }, [actionPolicies]);
+
+  useEffect(() => {
+    voiceSettingsRef.current = voiceSettings;
+  }, [voiceSettings]);
+
+  useEffect(() => {
+    memoriesRef.current = memories;
+  }, [memories]);
+
+  useEffect(() => {
+    remindersRef.current = reminders;
+  }, [reminders]);
+
+  useEffect(() => {
+    messagesRef.current = messages;
+  }, [messages]);
+
+  useEffect(() => {
+    if (visionPreview.current) visionPreview.current.srcObject = vision?.stream || null;
+  }, [vision]);
 
   // Auto scroll to bottom of chat
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages, voiceState.transcription]);
+  }, [messages, voiceState.userTranscript, voiceState.assistantTranscript, streamingReply]);
+
+  const addMessage = (role: 'user' | 'assistant' | 'system', content: string, extra?: Partial<Pick<ChatMessage, 'actionId' | 'interrupted' | 'timestamp' | 'images'>>) => {
+    const message: ChatMessage = { role, content, timestamp: Date.now(), ...extra };
+    setMessages(prev => [...prev, message]);
+    return message;
+  };
+
+  const greetingFor = (p: Persona): ChatMessage => ({ role: 'assistant', content: p.greeting, timestamp: Date.now() });
+
+  const persistConversation = (conversation: Conversation) => {
+    if (activeConversation.current?.id === conversation.id) activeConversation.current = conversation;
+    setConversations(prev => [conversation, ...prev.filter(c => c.id !== conversation.id)].sort((a, b) => b.updatedAt - a.updatedAt));
+    saveConversation(conversation).catch(e => console.error("Failed to save conversation", e));
+  };
+
+  const updateConversation = (id: string, patch: Partial<Conversation>) => {
+    if (activeConversation.current?.id === id) activeConversation.current = { ...activeConversation.current, ...patch };
+    setConversations(prev => prev.map(c => c.id === id ? { ...c, ...patch } : c));
+    patchConversation(id, patch).catch(e => console.error("Failed to update conversation", e));
+  };
+
+  // Switches to a conversation and restores the persona and backend it was using
+  const openConversation = (conversation: Conversation) => {
+    cancelReply();
+    if (voiceState.isActive) stopVoice();
+    activeConversation.current = conversation;
+    summaryRef.current = conversation.summary || EMPTY_SUMMARY;
+    setActiveConversationId(conversation.id);
+    setMessages(conversation.messages);
+    setPersonaId(findPersona(personas, conversation.personaId).id);
+    if (isBackendKind(conversation.backend)) setBackendSettings(prev => ({ ...prev, active: conversation.backend }));
+  };
+
+  const startConversation = () => {
+    const conversation = newConversation({ personaId: persona.id, backend: backendSettings.active, messages: [greetingFor(persona)] });
+    persistConversation(conversation);
+    openConversation(conversation);
+  };
 
-  const addMessage = (role: 'user' | 'assistant' | 'system', content: string) => {
-    setMessages(prev => [...prev, { role, content, timestamp: Date.now() }]);
+  const removeConversation = (id: string) => {
+    deleteConversation(id).catch(e => console.error("Failed to delete conversation", e));
+    const remaining = conversations.filter(c => c.id !== id);
+    setConversations(remaining);
+    if (activeConversation.current?.id !== id) return;
+    activeConversation.current = null;
+    if (remaining.length) openConversation(remaining[0]);
+    else startConversation();
+  };
+
+  const importConversations = (imported: Conversation[]) => {
+    imported.forEach(c => saveConversation(c).catch(e => console.error("Failed to import conversation", e)));
+    setConversations(prev => [...prev, ...imported].sort((a, b) => b.updatedAt - a.updatedAt));
   };
 
   const clearHistory = () => {
-    if (confirm("Goshujin-sama, clear all conversation history?")) {
+    if (confirm("Goshujin-sama, clear this conversation?")) {
+      summaryRef.current = EMPTY_SUMMARY;
+      if (activeConversation.current) activeConversation.current = { ...activeConversation.current, summary: undefined };
       setMessages([]);
-      localStorage.removeItem(STORAGE_KEY);
     }
   };
 
-  const handleSystemAction = useCallback((action: SystemAction) => {
-    let url = '';
-    switch (action.type) {
-      case 'search': url = `https://www.google.com/search?q=${encodeURIComponent(action.query)}`; break;
-      case 'youtube': url = `https://www.youtube.com/results?search_query=${encodeURIComponent(action.query)}`; break;
-      case 'music': url = `https://music.youtube.com/search?q=${encodeURIComponent(action.query)}`; break;
+  // Recent turns within the context budget, plus the summary of everything older
+  const buildContext = (history: ChatMessage[], systemInstruction: string) => {
+    const { messages: turns, overflow } = buildContextWindow(history, backendSettings.contextBudget, summaryRef.current);
+    return { systemInstruction: withSummary(systemInstruction, summaryRef.current), messages: turns, overflow };
+  };
+
+  // Runs after the reply so the summary call never delays it
+  const foldOverflow = (overflow: ChatMessage[]) => {
+    const conversationId = activeConversation.current?.id;
+    if (overflow.length === 0 || isSummarizing.current || !conversationId) return;
+    isSummarizing.current = true;
+    summarizeOverflow(provider, summaryRef.current, overflow)
+      .then(summary => {
+        if (activeConversation.current?.id === conversationId) summaryRef.current = summary;
+        updateConversation(conversationId, { summary });
+      })
+      .catch(e => console.error("Failed to summarize history", e))
+      .finally(() => { isSummarizing.current = false; });
+  };
+
+  const updateAction = (record: ActionRecord) => {
+    setActionLog(prev => prev.map(r => r.id === record.id ? record : r));
+    pendingActions.current.get(record.id)?.(record);
+    pendingActions.current.delete(record.id);
+  };
+
+  // Allow/Open clicks are user gestures, so popups opened here get past blockers
+  const approveAction = (record: ActionRecord) => updateAction(openActionUrl(record));
+  const denyAction = (record: ActionRecord) => updateAction({ ...record, status: 'denied' });
+
+  // Runs a registered tool under its policy and resolves with what actually happened, for the model
+  const handleSystemAction = useCallback(async (action: SystemAction, source: ActionRecord['source'] = 'assistant'): Promise<string> => {
+    const tool = toolRegistry.get(action.tool);
+    let record: ActionRecord = {
+      id: crypto.randomUUID(),
+      tool: action.tool,
+      label: tool?.label || action.tool,
+      summary: tool?.label || action.tool,
+      source,
+      status: 'pending',
+      timestamp: Date.now()
+    };
+
+    const problem = tool ? tool.validate(action.args) : `there is no tool called ${action.tool}`;
+    if (problem || !tool) {
+      record = { ...record, status: 'rejected', detail: problem || undefined };
+    } else {
+      const effect = tool.handler(action.args);
+      record = { ...record, summary: effect.summary, url: effect.url };
+      const policy = source === 'user' ? 'auto' : actionPoliciesRef.current[action.tool] || defaultPolicy(tool);
+      if (source === 'assistant' && !actionLimiter.current.tryAcquire()) {
+        record = { ...record, status: 'rate_limited' };
+      } else if (policy === 'deny') {
+        record = { ...record, status: 'denied', detail: 'Disabled in System Actions' };
+      } else if (policy === 'auto') {
+        record = openActionUrl(record);
+      }
     }
-    if (url) window.open(url, '_blank');
-    addMessage('system', `Command triggered: ${action.type} "${action.query}"`);
-  }, []);
+
+    setActionLog(prev => [...prev, record].slice(-ACTION_LOG_LIMIT));
+    addMessage('system', `Command triggered: ${record.summary}`, { actionId: record.id });
+    if (record.status !== 'pending') return describeOutcome(record);
+
+    const pending = record;
+    const settled = await new Promise<ActionRecord>(resolve => {
+      pendingActions.current.set(pending.id, resolve);
+      setTimeout(() => {
+        if (pendingActions.current.has(pending.id)) updateAction({ ...pending, status: 'expired' });
+      }, ACTION_CONFIRM_TIMEOUT_MS);
+    });
+    return describeOutcome(settled);
+  }, [toolRegistry]);
 
   // Browser-Native Speech Synthesis for Offline Mode
+  const newSpeechQueue = () => {
+    speechQueueRef.current?.cancel();
+    const queue = createSpeechQueue(utterance => {
+      // Spoken in the same script it is shown in, which also suits a Hindi voice better than romanized text
+      utterance.text = display(utterance.text);
+      utterance.lang = language;
+      utterance.rate = persona.rate;
+      utterance.pitch = persona.pitch;
+      const voice = pickVoice(window.speechSynthesis.getVoices(), language, persona.localVoice);
+      if (voice) utterance.voice = voice;
+    }, {
+      onStart: () => {
+        isSpeakingLocal.current = true;
+        setVoiceState(prev => ({ ...prev, isSpeaking: true }));
+      },
+      onIdle: () => {
+        isSpeakingLocal.current = false;
+        // The queue also runs dry between streamed sentences; only a finished reply counts
+        if (!replyAbortRef.current) replySettled();
+        wordPulse.current.reset();
+        setVoiceState(prev => ({ ...prev, isSpeaking: false }));
+      },
+      onBoundary: (e) => {
+        if (e.name === 'word') wordPulse.current.onBoundary(e.charLength);
+      }
+    });
+    speechQueueRef.current = queue;
+    return queue;
+  };
+
   const speakLocal = (text: string) => {
-    if (!window.speechSynthesis) return;
-    const utterance = new SpeechSynthesisUtterance(text);
-    utterance.lang = 'en-US'; // Best compatibility for mixed Hindi
-    utterance.rate = 1.0;
-    utterance.pitch = personality === Personality.FEMALE ? 1.2 : 0.9;
-    
-    utterance.onstart = () => setVoiceState(prev => ({ ...prev, isSpeaking: true }));
-    utterance.onend = () => setVoiceState(prev => ({ ...prev, isSpeaking: false }));
-    window.speechSynthesis.speak(utterance);
-  };
-
-  // Local Ollama Request
-  const queryOllama = async (prompt: string) => {
+    const queue = newSpeechQueue();
+    queue.push(text);
+    queue.flush();
+  };
+
+  // Like speakLocal, but after whatever is being said instead of cutting it off
+  const announceLocal = (text: string) => {
+    const queue = speechQueueRef.current;
+    if (replyAbortRef.current) pendingAnnouncements.current.push(text);
+    else if (queue && isSpeakingLocal.current) {
+      queue.push(text);
+      queue.flush();
+    } else speakLocal(text);
+  };
+
+  // Remembered facts go after the persona and language instructions; query picks the most relevant ones
+  const withMemories = (instruction: string, query: string) =>
+    memorySettings.enabled ? `${instruction}\n\n${memoryInstruction(memoriesRef.current, query)}` : instruction;
+
+  // saveMemory and recallMemories work on local storage only, so they skip the action policies
+  const handleMemoryTool = async (name: string, args: Record<string, unknown>): Promise<string> => {
+    if (name === 'saveMemory') {
+      const fact = String(args.fact ?? '').trim();
+      if (!fact) return 'Nothing saved: the fact was empty.';
+      setMemories(prev => addMemory(prev, fact, 'assistant'));
+      addMessage('system', `Remembered: ${fact}`);
+      return 'Saved.';
+    }
+    const query = String(args.query ?? '').trim();
+    const facts = rankFacts(memoriesRef.current, query, 5, true);
+    const { embeddingModel } = memorySettings;
+    const embed = embeddingModel ? createOllamaEmbedder(backendSettings.configs.ollama.endpoint, embeddingModel) : undefined;
     try {
-      const response = await fetch('http://localhost:11434/api/chat', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          model: 'llama3.2:3b-instruct-q4_K_',
-          messages: [{ role: 'system', content: `You are ${personality === Personality.FEMALE ? 'Yuna' : 'Hiro'}, an anime assistant. Speak in Hinglish (English+Hindi). You can suggest searching Google or playing music. Current personality: ${personality}` }, { role: 'user', content: prompt }],
-          stream: false
-        })
+      const others = (await listConversations()).filter(c => c.id !== activeConversation.current?.id);
+      const messages = await searchHistory(others, query, 3, embed).catch(e => {
+        console.error("Failed to embed history, falling back to keywords", e);
+        return searchHistory(others, query, 3);
       });
-      const data = await response.json();
-      const content = data.message.content;
-      addMessage('assistant', content);
-      speakLocal(content);
-      
-      // Simple keyword detection for offline mode "system tools"
-      if (content.toLowerCase().includes('search')) {
-         const match = content.match(/search (.*)/i);
-         if (match) handleSystemAction({ type: 'search', query: match[1] });
+      return describeRecall(facts, messages);
+    } catch (e) {
+      console.error("Failed to search history", e);
+      return describeRecall(facts, []);
+    }
+  };
+
+  const requestNotifications = () => {
+    if (!('Notification' in window) || Notification.permission !== 'default') return;
+    Notification.requestPermission().catch(e => console.error("Failed to request notification permission", e));
+  };
+
+  // Timers and reminders live in local storage and are announced by the scheduler effect below
+  const handleReminderTool = async (name: string, args: Record<string, unknown>): Promise<string> => {
+    if (name === 'listReminders') return describeReminders(remindersRef.current);
+    if (name === 'cancelReminder') {
+      const reminder = findReminder(remindersRef.current, String(args.target ?? ''));
+      if (!reminder) return `Nothing pending matches "${args.target}".`;
+      setReminders(prev => prev.filter(r => r.id !== reminder.id));
+      addMessage('system', `Cancelled ${reminder.kind}: ${reminder.label}`);
+      return `Cancelled ${reminder.kind} "${reminder.label}".`;
+    }
+    const reminder = reminderFromArgs(name as 'setTimer' | 'setReminder', args);
+    if (typeof reminder === 'string') return reminder;
+    setReminders(prev => [...prev, reminder]);
+    addMessage('system', `${reminder.kind === 'timer' ? 'Timer' : 'Reminder'} set for ${formatDue(reminder)}: ${reminder.label}`);
+    requestNotifications();
+    return `Set ${reminder.kind} ${reminder.id} for ${formatDue(reminder)}.`;
+  };
+
+  const runTool = (name: string, args: Record<string, unknown>): Promise<string> =>
+    isMemoryTool(name) ? handleMemoryTool(name, args)
+    : isReminderTool(name) ? handleReminderTool(name, args)
+    : handleSystemAction({ tool: name, args });
+
+  const runToolCall = (fc: ToolCall): Promise<string> => runTool(fc.name, fc.args);
+
+  // Stops the streaming reply and anything still queued for speech
+  const cancelReply = () => {
+    stopBargeIn();
+    replyAbortRef.current?.abort();
+    speechQueueRef.current?.cancel();
+  };
+
+  // Cuts the assistant off mid-reply; what it already said stays in the log, marked as interrupted
+  const interruptReply = () => {
+    if (replyAbortRef.current) {
+      replyAbortRef.current.abort('interrupted');
+    } else {
+      setMessages(prev => {
+        const last = prev[prev.length - 1];
+        return last?.role === 'assistant' ? [...prev.slice(0, -1), { ...last, interrupted: true }] : prev;
+      });
+    }
+    speechQueueRef.current?.cancel();
+  };
+
+  // The user started talking over local speech: stop it and listen to them instead.
+  // Hands-free sessions start listening again by themselves once the reply settles.
+  const bargeIn = () => {
+    stopBargeIn();
+    awakeRef.current = true;
+    interruptReply();
+    if (!handsFreeRef.current) startVoice();
+  };
+
+  // Runs a mic watcher on a stream of its own; resolves to a function that stops both
+  const watchMic = (watch: (stream: MediaStream) => Promise<MicCapture>): Promise<() => void> =>
+    navigator.mediaDevices.getUserMedia({ audio: MIC_CONSTRAINTS }).then(async stream => {
+      const stopTracks = () => stream.getTracks().forEach(t => t.stop());
+      try {
+        const capture = await watch(stream);
+        return () => {
+          capture.stop();
+          stopTracks();
+        };
+      } catch (e) {
+        stopTracks();
+        throw e;
       }
+    });
+
+  const startBargeIn = () => {
+    stopBargeIn();
+    const pending = watchMic(stream => startBargeInDetector(stream, bargeIn));
+    bargeInRef.current = pending;
+    pending.catch(e => console.error("Failed to start barge-in detection", e));
+  };
+
+  const stopBargeIn = () => {
+    const pending = bargeInRef.current;
+    bargeInRef.current = null;
+    pending?.then(stop => stop()).catch(() => {});
+  };
+
+  // The reply finished or was cut off: release the barge-in mic and, hands-free, listen again
+  const replySettled = () => {
+    stopBargeIn();
+    if (handsFreeRef.current && isLocalMode) listenLocal();
+  };
+
+  // Streams a reply from the active backend; local backends speak it sentence by sentence.
+  // Spoken requests can be interrupted by talking over the reply.
+  const requestReply = async (history: ChatMessage[], fromVoice = false) => {
+    const local = isLocalMode;
+    const lastRequest = [...history].reverse().find(m => m.role === 'user')?.content || '';
+    const { overflow, ...context } = buildContext(history, withMemories(systemInstruction, lastRequest));
+    // Opening another conversation cancels the reply; what's left of it belongs to the one it started in
+    const conversationId = activeConversation.current?.id;
+    const stillOpen = () => activeConversation.current?.id === conversationId;
+
+    cancelReply();
+    const controller = new AbortController();
+    replyAbortRef.current = controller;
+    const speech = local ? newSpeechQueue() : null;
+    if (local) pauseListening();
+    if (speech && fromVoice && voiceSettingsRef.current.bargeIn) startBargeIn();
+    let partial = '';
+    setStreamingReply('');
+    setVoiceState(prev => ({ ...prev, isThinking: true }));
+
+    try {
+      let turns: LLMMessage[] = context.messages;
+      // Tool results go back to the model until it answers in plain text
+      for (let round = 0; ; round++) {
+        if (partial && !/\s$/.test(partial)) partial += ' ';
+        const result = await provider.chatStream({
+          ...context,
+          messages: turns,
+          tools: toolDeclarations,
+          signal: controller.signal
+        }, delta => {
+          partial += delta;
+          setStreamingReply(partial);
+          speech?.push(delta);
+        });
+        if (result.toolCalls.length === 0 || round === MAX_TOOL_ROUNDS) break;
+        const toolTurns: LLMMessage[] = [];
+        for (const fc of result.toolCalls) {
+          toolTurns.push({ role: 'tool', content: await runToolCall(fc), toolName: fc.name, toolCallId: fc.id });
+        }
+        turns = [...turns, { role: 'assistant', content: result.text, toolCalls: result.toolCalls }, ...toolTurns];
+      }
+      speech?.flush();
+      const content = partial.trim();
+      if (stillOpen() && (content || !local)) addMessage('assistant', content || "Processed.");
     } catch (err) {
-      addMessage('system', "Offline Error: Make sure Ollama is running locally on port 11434.");
+      if (!stillOpen()) return;
+      if (controller.signal.reason === 'interrupted') {
+        if (partial) addMessage('assistant', partial, { interrupted: true });
+      } else if (controller.signal.aborted) {
+        if (partial) addMessage('assistant', partial);
+        addMessage('system', "Reply cancelled.");
+      } else if (local) {
+        console.error(err);
+        const { endpoint } = backendSettings.configs[backendSettings.active];
+        addMessage('system', `Offline Error: Make sure ${BACKEND_LABELS[provider.kind]} is running at ${endpoint} with model "${provider.model}".`);
+      } else {
+        console.error(err);
+        addMessage('system', geminiKeyProblem(geminiKey) || "Error communicating with Gemini. Check the Gemini key settings (key icon).");
+      }
+    } finally {
+      if (replyAbortRef.current === controller) replyAbortRef.current = null;
+      const held = pendingAnnouncements.current.splice(0);
+      if (held.length) announceLocal(held.join(' '));
+      if (!isSpeakingLocal.current) replySettled();
+      setStreamingReply(null);
+      setVoiceState(prev => ({ ...prev, isThinking: false }));
+      if (stillOpen()) foldOverflow(overflow);
     }
   };
 
+  // Stops the recognizer without treating what it heard as a request
+  const pauseListening = () => {
+    const rec = speechRecognition.current;
+    if (!rec) return;
+    rec.onend = null;
+    rec.abort();
+    speechRecognition.current = null;
+    setVoiceState(prev => ({ ...prev, userTranscript: '' }));
+  };
+
+  // Browser speech recognition: one utterance per mic press, or continuous in hands-free mode
+  // where the VAD decides when an utterance is over
+  const listenLocal = () => {
+    if (speechRecognition.current) return;
+    const Recognition = (window as any).webkitSpeechRecognition || (window as any).SpeechRecognition;
+    if (!Recognition) {
+      handsFreeRef.current = false;
+      setVoiceState(prev => ({ ...prev, isActive: false, connection: 'error', connectionDetail: 'This browser does not support speech recognition.' }));
+      return;
+    }
+
+    const handsFree = handsFreeRef.current;
+    const rec = new Recognition();
+    rec.continuous = handsFree;
+    rec.interimResults = true;
+    rec.lang = language;
+    let transcript = '';
+    let startedAt = 0;
+
+    rec.onstart = () => setVoiceState(prev => ({ ...prev, isActive: true, listenState: handsFree && !awakeRef.current ? 'armed' : 'listening', connection: 'open', connectionDetail: '' }));
+    rec.onresult = (e: any) => {
+      transcript = Array.from(e.results).map((r: any) => r[0].transcript).join('');
+      if (!startedAt) startedAt = Date.now();
+      setVoiceState(prev => ({ ...prev, userTranscript: transcript }));
+      // Backstop for speech too quiet for the VAD to notice
+      if (handsFree && e.results[e.results.length - 1].isFinal && !handsFreeVad.current?.isSpeaking()) rec.stop();
+    };
+    rec.onerror = (e: any) => {
+      if (e.error === 'no-speech' || e.error === 'aborted') return;
+      // Re-arming would only hit the same error again
+      console.error("Speech recognition failed", e.error);
+      handsFreeRef.current = false;
+      setVoiceState(prev => ({ ...prev, connection: 'error', connectionDetail: `Speech recognition failed (${e.error}).` }));
+    };
+    rec.onend = () => {
+      speechRecognition.current = null;
+      setVoiceState(prev => ({ ...prev, userTranscript: '', isActive: handsFreeRef.current, listenState: 'idle' }));
+      handleUtterance(transcript.trim(), startedAt);
+    };
+    rec.start();
+    speechRecognition.current = rec;
+  };
+
+  // Hands-free with a wake phrase, only "Hey <name> ..." or the utterance right after it counts
+  const handleUtterance = (text: string, startedAt: number) => {
+    let request = text;
+    if (handsFreeRef.current && voiceSettingsRef.current.wakeWord && !awakeRef.current) {
+      const rest = text ? matchWakePhrase(text, persona.name) : null;
+      if (rest === null) return listenLocal();
+      if (!rest) {
+        awakeRef.current = true;
+        return listenLocal();
+      }
+      request = rest;
+    }
+    if (!request) {
+      if (handsFreeRef.current) listenLocal();
+      return;
+    }
+    awakeRef.current = false;
+    requestReply([...messagesRef.current, addMessage('user', request, { timestamp: startedAt })], true);
+  };
+
+  // Cloud hands-free with a wake phrase: browser recognition listens for it while mic audio is held back
+  const listenForWakePhrase = () => {
+    if (speechRecognition.current) return;
+    const Recognition = (window as any).webkitSpeechRecognition || (window as any).SpeechRecognition;
+    if (!Recognition) {
+      awakeRef.current = true;
+      return;
+    }
+    const rec = new Recognition();
+    rec.continuous = true;
+    rec.interimResults = false;
+    rec.lang = language;
+    rec.onresult = (e: any) => {
+      const rest = matchWakePhrase(e.results[e.results.length - 1][0].transcript, persona.name);
+      if (rest === null) return;
+      pauseListening();
+      awakeRef.current = true;
+      setVoiceState(prev => ({ ...prev, listenState: 'listening' }));
+      // Whatever followed the phrase was never streamed, so it goes over as text
+      if (rest) {
+        addMessage('user', rest);
+        sessionRef.current?.then(s => s.sendClientContent({ turns: [{ role: 'user', parts: [{ text: rest }] }], turnComplete: true }));
+      }
+    };
+    // Chrome ends continuous recognition after a while; keep listening for as long as the session runs
+    rec.onend = () => {
+      speechRecognition.current = null;
+      if (handsFreeRef.current && !awakeRef.current) listenForWakePhrase();
+    };
+    rec.start();
+    speechRecognition.current = rec;
+  };
+
   const startVoice = async () => {
+    handsFreeRef.current = voiceSettings.handsFree;
+    awakeRef.current = false;
+
     if (isLocalMode) {
-      // Browser Native Speech Recognition
-      const Recognition = (window as any).webkitSpeechRecognition || (window as any).SpeechRecognition;
-      if (!Recognition) return alert("Browser does not support speech recognition.");
-      
-      const rec = new Recognition();
-      rec.continuous = false;
-      rec.interimResults = true;
-      rec.lang = 'en-US';
-      
-      rec.onstart = () => setVoiceState(prev => ({ ...prev, isActive: true }));
-      rec.onresult = (e: any) => {
-        const transcript = Array.from(e.results).map((r: any) => r[0].transcript).join('');
-        setVoiceState(prev => ({ ...prev, transcription: transcript }));
-      };
-      rec.onend = () => {
-        setVoiceState(prev => {
-          if (prev.transcription) {
-            addMessage('user', prev.transcription);
-            queryOllama(prev.transcription);
-          }
-          return { ...prev, isActive: false, transcription: '' };
-        });
-      };
-      rec.start();
-      speechRecognition.current = rec;
+      if (voiceSettings.handsFree && !handsFreeMic.current) {
+        const vad = createVad({ threshold: voiceSettings.vadThreshold, hangoverMs: voiceSettings.vadHangoverMs });
+        handsFreeVad.current = vad;
+        const pending = watchMic(stream => startMicCapture(stream, frame => {
+          const event = vad.process(frame, MIC_FRAME_MS);
+          if (!speechRecognition.current) return;
+          const open = !voiceSettingsRef.current.wakeWord || awakeRef.current;
+          if (event === 'start' && open) setVoiceState(prev => ({ ...prev, listenState: 'listening' }));
+          if (event === 'end') speechRecognition.current.stop();
+        }, { frameMs: MIC_FRAME_MS }));
+        handsFreeMic.current = pending;
+        pending.catch(e => console.error("Failed to start voice activity detection", e));
+      }
+      listenLocal();
       return;
     }
 
     // Cloud Mode (Gemini Live API)
+    const keyProblem = geminiKeyProblem(geminiKey);
+    if (keyProblem) {
+      setVoiceState(prev => ({ ...prev, connection: 'error', connectionDetail: keyProblem }));
+      setShowGeminiKey(true);
+      return;
+    }
+    liveWanted.current = true;
+    resumeHandle.current = null;
+    reconnectAttempt.current = 0;
+    setVoiceState(prev => ({ ...prev, isActive: true, connection: 'connecting', connectionDetail: '' }));
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
-      const inputAC = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      const outputAC = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-
-      audioContexts.current = { input: inputAC, output: outputAC, stream, nextStartTime: 0, sources: new Set() };
-
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        callbacks: {
-          onopen: () => {
-            const source = inputAC.createMediaStreamSource(stream);
-            const scriptProcessor = inputAC.createScriptProcessor(4096, 1, 1);
-            scriptProcessor.onaudioprocess = (e) => {
-              sessionPromise.then(s => s.sendRealtimeInput({ media: createBlob(e.inputBuffer.getChannelData(0)) }));
+      const outputAC = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: OUTPUT_SAMPLE_RATE });
+      // Every output chunk goes through one analyser so the avatar can follow the real voice
+      const analyser = outputAC.createAnalyser();
+      analyser.fftSize = 512;
+      analyser.smoothingTimeConstant = 0.5;
+      analyser.connect(outputAC.destination);
+      audioContexts.current = { input: null, output: outputAC, stream: null, analyser, nextStartTime: 0, sources: new Set() };
+
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: MIC_CONSTRAINTS });
+      audioContexts.current.stream = stream;
+
+      const { handsFree, wakeWord } = voiceSettings;
+      // Frames are dropped while no session is open, so the mic keeps running across reconnects
+      const send = (frame: Float32Array, capturedAt?: number) => {
+        if (!sessionRef.current) return;
+        recorderRef.current?.addMic(frame, INPUT_SAMPLE_RATE, capturedAt);
+        sessionRef.current.then(s => s.sendRealtimeInput({ media: createBlob(frame) }));
+      };
+      // Hands-free, only speech goes out (plus a little audio from just before it), and only once awake
+      const vad = handsFree ? createVad({ threshold: voiceSettings.vadThreshold, hangoverMs: voiceSettings.vadHangoverMs }) : null;
+      const preRoll: { frame: Float32Array, at: number }[] = [];
+      // 16 kHz PCM, resampled from whatever rate the mic really runs at
+      audioContexts.current.input = await startMicCapture(stream, frame => {
+        if (!vad) return send(frame);
+        const event = vad.process(frame, MIC_FRAME_MS);
+        const open = !wakeWord || awakeRef.current;
+        if (!vad.isSpeaking() && event !== 'end') {
+          preRoll.push({ frame, at: Date.now() - MIC_FRAME_MS });
+          if (preRoll.length > PRE_ROLL_FRAMES) preRoll.shift();
+          return;
+        }
+        if (!open || !sessionRef.current) return;
+        if (event === 'start') {
+          preRoll.splice(0).forEach(({ frame, at }) => send(frame, at));
+          setVoiceState(prev => ({ ...prev, listenState: 'listening' }));
+        }
+        send(frame);
+        if (event === 'end') {
+          sessionRef.current.then(s => s.sendRealtimeInput({ audioStreamEnd: true }));
+          setVoiceState(prev => ({ ...prev, listenState: wakeWord ? prev.listenState : 'armed' }));
+        }
+      }, { frameMs: MIC_FRAME_MS });
+    } catch (e) {
+      console.error("Failed to start audio", e);
+      if (!liveWanted.current) return releaseLiveAudio();
+      const denied = e instanceof DOMException && e.name === 'NotAllowedError';
+      failLive(denied ? 'Microphone access was denied.' : 'Could not start the microphone.');
+      return;
+    }
+    // Stopped while the mic was starting up
+    if (!liveWanted.current) return releaseLiveAudio();
+    connectLive();
+  };
+
+  // Opens the Live session, or re-opens it with the latest resumption handle so the conversation carries on
+  const connectLive = () => {
+    const { handsFree, wakeWord } = voiceSettings;
+    lastLiveError.current = '';
+    const sessionPromise = createLiveClient(geminiKey).then(ai => ai.live.connect({
+      model: LIVE_MODEL,
+      callbacks: {
+        onopen: () => {
+          sessionRef.current = sessionPromise;
+          setVoiceState(prev => ({ ...prev, connection: 'open', connectionDetail: '', listenState: handsFree ? 'armed' : 'listening' }));
+          if (handsFree && wakeWord && !awakeRef.current) listenForWakePhrase();
+        },
+        onmessage: async (msg) => {
+          const { output: outputAC, analyser } = audioContexts.current;
+          if (!outputAC) return;
+          if (msg.setupComplete) reconnectAttempt.current = 0;
+          if (msg.sessionResumptionUpdate?.resumable && msg.sessionResumptionUpdate.newHandle) {
+            resumeHandle.current = msg.sessionResumptionUpdate.newHandle;
+          }
+          // The server is about to end this connection; reconnect on our terms with the latest handle
+          if (msg.goAway) {
+            lastLiveError.current = 'Gemini Live asked to reconnect.';
+            sessionPromise.then(s => s.close());
+          }
+          if (msg.serverContent?.inputTranscription?.text) {
+            appendUserSpeech(msg.serverContent.inputTranscription.text);
+          }
+          // The Live API detected the user talking over the reply
+          if (msg.serverContent?.interrupted) {
+            flushPlayback();
+            finishLiveTurn(true);
+            setVoiceState(prev => ({ ...prev, isSpeaking: false }));
+          }
+          const audioData = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+          if (audioData) {
+            assistantStarted();
+            setVoiceState(prev => ({ ...prev, isSpeaking: true }));
+            const buffer = await decodeAudioData(decode(audioData), outputAC, OUTPUT_SAMPLE_RATE, 1);
+            const source = outputAC.createBufferSource();
+            source.buffer = buffer;
+            source.connect(analyser);
+            audioContexts.current.nextStartTime = Math.max(audioContexts.current.nextStartTime, outputAC.currentTime);
+            source.start(audioContexts.current.nextStartTime);
+            recorderRef.current?.addAssistant(buffer.getChannelData(0), buffer.sampleRate, Date.now() + (audioContexts.current.nextStartTime - outputAC.currentTime) * 1000);
+            audioContexts.current.nextStartTime += buffer.duration;
+            audioContexts.current.sources.add(source);
+            source.onended = () => {
+              audioContexts.current.sources.delete(source);
+              if (audioContexts.current.sources.size === 0) setVoiceState(prev => ({ ...prev, isSpeaking: false }));
             };
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(inputAC.destination);
-            setVoiceState(prev => ({ ...prev, isActive: true }));
-          },
-          onmessage: async (msg) => {
-            const audioData = msg.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-            if (audioData) {
-              setVoiceState(prev => ({ ...prev, isSpeaking: true }));
-              const buffer = await decodeAudioData(decode(audioData), outputAC, 24000, 1);
-              const source = outputAC.createBufferSource();
-              source.buffer = buffer;
-              source.connect(outputAC.destination);
-              audioContexts.current.nextStartTime = Math.max(audioContexts.current.nextStartTime, outputAC.currentTime);
-              source.start(audioContexts.current.nextStartTime);
-              audioContexts.current.nextStartTime += buffer.duration;
-              audioContexts.current.sources.add(source);
-              source.onended = () => {
-                audioContexts.current.sources.delete(source);
-                if (audioContexts.current.sources.size === 0) setVoiceState(prev => ({ ...prev, isSpeaking: false }));
-              };
-            }
-            if (msg.serverContent?.outputTranscription) {
-              setVoiceState(prev => ({ ...prev, transcription: prev.transcription + msg.serverContent!.outputTranscription!.text }));
-            }
-            if (msg.serverContent?.turnComplete) {
-              setVoiceState(prev => {
-                if (prev.transcription) addMessage('assistant', prev.transcription);
-                return { ...prev, transcription: '' };
-              });
+          }
+          if (msg.serverContent?.outputTranscription?.text) {
+            appendAssistantSpeech(msg.serverContent.outputTranscription.text);
+          }
+          if (msg.serverContent?.turnComplete) {
+            finishLiveTurn();
+            // Each request needs the wake phrase again
+            if (handsFree && wakeWord) {
+              awakeRef.current = false;
+              setVoiceState(prev => ({ ...prev, listenState: 'armed' }));
+              listenForWakePhrase();
             }
-            if (msg.toolCall) {
-              for (const fc of msg.toolCall.functionCalls) {
-                let type: 'search' | 'youtube' | 'music' = 'search';
-                if (fc.name === 'openYoutube') type = 'youtube';
-                if (fc.name === 'playMusic') type = 'music';
-                handleSystemAction({ type, query: fc.args.query as string });
-                sessionPromise.then(s => s.sendToolResponse({ functionResponses: { id: fc.id, name: fc.name, response: { result: "Success" } } }));
-              }
+          }
+          if (msg.toolCall) {
+            // The request that led to the call goes in the log before the action card
+            assistantStarted();
+            for (const fc of msg.toolCall.functionCalls || []) {
+              runTool(fc.name || '', fc.args || {}).then(result =>
+                sessionPromise.then(s => s.sendToolResponse({ functionResponses: { id: fc.id, name: fc.name, response: { result } } })));
             }
-          },
-          onclose: () => setVoiceState(prev => ({ ...prev, isActive: false }))
+          }
         },
-        config: {
-          responseModalities: [Modality.AUDIO],
-          systemInstruction: `You are ${personality === Personality.FEMALE ? 'Yuna' : 'Hiro'}. Speak Hinglish. Use cute anime sounds. Help with searches and music.`,
-          tools: [{ functionDeclarations: systemToolDeclarations }],
-          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: personality === Personality.FEMALE ? 'Kore' : 'Puck' } } }
-        }
-      });
-      sessionRef.current = await sessionPromise;
+        onerror: (e) => {
+          console.error("Live session error", e);
+          lastLiveError.current = e.message || lastLiveError.current;
+        },
+        onclose: (e) => handleLiveClose(sessionPromise, lastLiveError.current || describeClose(e.code, e.reason), isRetryableClose(e.code))
+      },
+      config: {
+        responseModalities: [Modality.AUDIO],
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        sessionResumption: { handle: resumeHandle.current || undefined },
+        systemInstruction: withMemories(systemInstruction, ''),
+        tools: [{ functionDeclarations: toolDeclarations }],
+        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: persona.geminiVoice } } }
+      }
+    }));
+    livePending.current = sessionPromise;
+    sessionPromise.catch(e => {
+      console.error("Failed to connect to Gemini Live", e);
+      const retryable = !(e instanceof LiveTokenError) || e.retryable;
+      handleLiveClose(sessionPromise, e instanceof Error && e.message ? e.message : 'Could not reach Gemini Live.', retryable);
+    });
+  };
+
+  // A connection ended without the user stopping it: reconnect with backoff, or give up with the reason
+  const handleLiveClose = (sessionPromise: Promise<Session>, detail: string, retryable: boolean) => {
+    // Already handled, or a newer connection has replaced this one
+    if (livePending.current !== sessionPromise) return;
+    livePending.current = null;
+    sessionRef.current = null;
+    pauseListening();
+    flushPlayback();
+    finishLiveTurn(true);
+    if (!liveWanted.current) return;
+    if (!retryable || reconnectAttempt.current >= MAX_RECONNECT_ATTEMPTS) return failLive(detail);
+
+    const attempt = ++reconnectAttempt.current;
+    setVoiceState(prev => ({
+      ...prev,
+      isSpeaking: false,
+      listenState: 'idle',
+      connection: 'reconnecting',
+      connectionDetail: `${detail} Reconnecting (${attempt}/${MAX_RECONNECT_ATTEMPTS})...`
+    }));
+    reconnectTimer.current = setTimeout(() => {
+      reconnectTimer.current = null;
+      if (liveWanted.current) connectLive();
+    }, reconnectDelay(attempt - 1));
+  };
+
+  const failLive = (detail: string) => {
+    releaseVoice();
+    setVoiceState(prev => ({ ...prev, isActive: false, isSpeaking: false, listenState: 'idle', connection: 'error', connectionDetail: detail }));
+  };
+
+  const appendUserSpeech = (text: string) => {
+    const turn = liveTurn.current;
+    const committed = turn.userMessage;
+    if (committed && Date.now() - turn.assistantAt < LATE_TRANSCRIPT_MS) {
+      const updated = { ...committed, content: committed.content + text };
+      turn.userMessage = updated;
+      setMessages(prev => prev.map(m => m === committed ? updated : m));
+      return;
+    }
+    if (!turn.user) turn.userAt = Date.now();
+    turn.user += text;
+    setVoiceState(prev => ({ ...prev, userTranscript: turn.user }));
+  };
+
+  // The model started answering, so what the user said so far becomes their message
+  const assistantStarted = () => {
+    const turn = liveTurn.current;
+    if (!turn.assistantAt) turn.assistantAt = Date.now();
+    if (!turn.user.trim()) return;
+    turn.userMessage = addMessage('user', turn.user.trim(), { timestamp: turn.userAt });
+    turn.user = '';
+    setVoiceState(prev => ({ ...prev, userTranscript: '' }));
+  };
+
+  const appendAssistantSpeech = (text: string) => {
+    assistantStarted();
+    liveTurn.current.assistant += text;
+    setVoiceState(prev => ({ ...prev, assistantTranscript: liveTurn.current.assistant }));
+  };
+
+  const finishLiveTurn = (interrupted = false) => {
+    const turn = liveTurn.current;
+    if (turn.assistant.trim()) {
+      addMessage('assistant', turn.assistant.trim(), { timestamp: turn.assistantAt, ...(interrupted && { interrupted }) });
+    }
+    // Speech that hasn't been answered yet carries over to the next turn
+    liveTurn.current = { user: turn.user, userAt: turn.userAt, userMessage: null, assistant: '', assistantAt: 0 };
+    setVoiceState(prev => ({ ...prev, assistantTranscript: '' }));
+  };
+
+  // Drops every scheduled Gemini audio chunk so playback stops right away
+  const flushPlayback = () => {
+    const { sources } = audioContexts.current;
+    sources.forEach((source: AudioBufferSourceNode) => {
+      source.onended = null;
+      source.stop();
+    });
+    sources.clear();
+    audioContexts.current.nextStartTime = 0;
+    recorderRef.current?.cutAssistant();
+  };
+
+  // Gemini audio is measured directly; browser speech only exposes word boundaries
+  const getLipSyncFrame = useCallback(() => {
+    const { analyser, sources } = audioContexts.current;
+    if (analyser && sources.size > 0) return analyserFrame(analyser);
+    return wordPulse.current.frame();
+  }, []);
+
+  // Camera or screen stills go into the Live session alongside the mic audio
+  const toggleVision = async (source: VideoSource) => {
+    const current = visionRef.current;
+    stopVision();
+    if (current?.source === source) return;
+    try {
+      const capture = await startVideoCapture(source, image => {
+        sessionRef.current?.then(s => s.sendRealtimeInput({ video: image }));
+      }, { onEnded: stopVision });
+      // The session ended while the camera or screen picker was open
+      if (!liveWanted.current) return capture.stop();
+      visionRef.current = capture;
+      setVision(capture);
     } catch (e) {
-      console.error(e);
-      alert("Error starting Cloud Session. Ensure API Key is valid.");
+      // Cancelling the screen picker lands here too
+      console.error("Failed to start video", e);
     }
   };
 
+  const stopVision = () => {
+    visionRef.current?.stop();
+    visionRef.current = null;
+    setVision(null);
+  };
+
+  // Opt-in: both sides of a Live session, for clips. Starting over discards the previous recording.
+  const toggleRecording = () => {
+    if (recorderRef.current) return finishRecording();
+    recorderRef.current = createSessionRecorder();
+    setIsRecording(true);
+    setLastRecording(null);
+  };
+
+  const finishRecording = () => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    recorderRef.current = null;
+    setIsRecording(false);
+    if (recorder.durationMs() > 0) setLastRecording({ recorder, endedAt: Date.now() });
+  };
+
+  const downloadRecording = (format: 'wav' | 'srt' | 'vtt') => {
+    if (!lastRecording) return;
+    const { recorder, endedAt } = lastRecording;
+    const name = `ani-mate-${new Date(recorder.startedAt).toISOString().slice(0, 19).replace(/[:T]/g, '-')}`;
+    if (format === 'wav') return downloadFile(`${name}.wav`, recorder.toWav(), 'audio/wav');
+    const cues = cuesFromMessages(messagesRef.current, recorder.startedAt, endedAt, { user: 'You', assistant: persona.name });
+    if (format === 'srt') downloadFile(`${name}.srt`, toSrt(cues), 'application/x-subrip');
+    else downloadFile(`${name}.vtt`, toVtt(cues), 'text/vtt');
+  };
+
+  // Frees the mic, the capture worklet and the playback context of a Live session
+  const releaseLiveAudio = () => {
+    const { stream, input, output } = audioContexts.current;
+    flushPlayback();
+    stream?.getTracks().forEach((t: MediaStreamTrack) => t.stop());
+    input?.stop();
+    if (output && output.state !== 'closed') output.close();
+    audioContexts.current = { input: null, output: null, stream: null, analyser: null, nextStartTime: 0, sources: new Set() };
+  };
+
+  // Ends every voice activity: recognizers, mic watchers, local speech and any Live connection
+  const releaseVoice = () => {
+    const wasHandsFree = handsFreeRef.current;
+    handsFreeRef.current = false;
+    liveWanted.current = false;
+    handsFreeMic.current?.then(stop => stop()).catch(() => {});
+    handsFreeMic.current = null;
+    handsFreeVad.current = null;
+    if (reconnectTimer.current) clearTimeout(reconnectTimer.current);
+    reconnectTimer.current = null;
+    const pending = livePending.current;
+    livePending.current = null;
+    sessionRef.current = null;
+    pending?.then(s => s.close()).catch(() => {});
+    // A one-shot recognizer still delivers what it heard; the others are just dropped
+    if (isLocalMode && !wasHandsFree) speechRecognition.current?.stop();
+    else pauseListening();
+    speechQueueRef.current?.cancel();
+    stopBargeIn();
+    stopVision();
+    releaseLiveAudio();
+    finishRecording();
+  };
+
   const stopVoice = () => {
-    if (isLocalMode) {
-      speechRecognition.current?.stop();
-    } else {
-      audioContexts.current.stream?.getTracks().forEach((t: any) => t.stop());
-      sessionRef.current?.close();
+    finishLiveTurn(true);
+    liveTurn.current = { user: '', userAt: 0, userMessage: null, assistant: '', assistantAt: 0 };
+    releaseVoice();
+    setVoiceState(prev => ({ ...prev, isActive: false, isSpeaking: false, listenState: 'idle', connection: 'closed', connectionDetail: '', userTranscript: '' }));
+  };
+
+  const addAttachments = async (files: File[]) => {
+    const images = files.filter(f => f.type.startsWith('image/')).slice(0, MAX_ATTACHMENTS);
+    if (images.length === 0) return;
+    try {
+      const read = await Promise.all(images.map(f => downscaleImageFile(f, ATTACHMENT_MAX_SIZE).then(fromDataUrl)));
+      setAttachments(prev => [...prev, ...read].slice(0, MAX_ATTACHMENTS));
+    } catch (e) {
+      console.error("Failed to read image", e);
+      addMessage('system', "Could not read that image.");
+    }
+  };
+
+  const switchBackend = (kind: BackendSettings['active']) => {
+    if (voiceState.isActive) stopVoice();
+    setBackendSettings(prev => ({ ...prev, active: kind }));
+  };
+
+  const exportConversation = (format: 'md' | 'json') => {
+    if (!activeConversation.current) return;
+    const conversation = { ...activeConversation.current, messages };
+    const name = slugify(conversationTitle(conversation));
+    if (format === 'json') downloadFile(`${name}.json`, toJSONExport([conversation]), 'application/json');
+    else downloadFile(`${name}.md`, toMarkdown(conversation), 'text/markdown');
+  };
+
+  // Slash commands are handled here and never reach the model
+  const runSlashCommand = ({ command, arg }: ParsedCommand) => {
+    if (command.requiresArg && !arg) {
+      addMessage('system', `Usage: ${usage(command)}`);
+      return;
+    }
+    if (command.tool) {
+      handleSystemAction({ tool: command.tool, args: { query: arg } }, 'user');
+      return;
+    }
+    const choice = arg.toLowerCase();
+    switch (command.name) {
+      case 'clear':
+        clearHistory();
+        break;
+      case 'persona': {
+        const match = personas.find(p => p.name.toLowerCase() === choice) || personas.find(p => p.name.toLowerCase().startsWith(choice));
+        if (match) setPersonaId(match.id);
+        else addMessage('system', `No persona called "${arg}". Available: ${personas.map(p => p.name).join(', ')}.`);
+        break;
+      }
+      case 'mode':
+        if (isBackendKind(choice)) switchBackend(choice);
+        else addMessage('system', `Usage: ${usage(command)}`);
+        break;
+      case 'export':
+        if (!choice || choice === 'md' || choice === 'markdown') exportConversation('md');
+        else if (choice === 'json') exportConversation('json');
+        else addMessage('system', `Usage: ${usage(command)}`);
+        break;
     }
-    setVoiceState(prev => ({ ...prev, isActive: false, isSpeaking: false }));
   };
 
   const handleSendText = async () => {
-    if (!inputText.trim()) return;
+    if (!inputText.trim() && attachments.length === 0) return;
     const msg = inputText;
+    inputHistory.current.push(msg);
+    saveJSON(INPUT_HISTORY_STORAGE_KEY, inputHistory.current.entries());
     setInputText('');
-    addMessage('user', msg);
-    
-    setVoiceState(prev => ({ ...prev, isThinking: true }));
-    if (isLocalMode) {
-      await queryOllama(msg);
-      setVoiceState(prev => ({ ...prev, isThinking: false }));
-    } else {
-      try {
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
-        const response = await ai.models.generateContent({
-          model: 'gemini-3-flash-preview',
-          contents: msg,
-          config: {
-            systemInstruction: `You are ${personality === Personality.FEMALE ? 'Yuna' : 'Hiro'}. Assist in Hinglish. Use system tools if needed.`,
-            tools: [{ functionDeclarations: systemToolDeclarations }]
-          }
-        });
-        if (response.functionCalls) {
-          response.functionCalls.forEach(fc => {
-             let type: 'search' | 'youtube' | 'music' = 'search';
-             if (fc.name === 'openYoutube') type = 'youtube';
-             if (fc.name === 'playMusic') type = 'music';
-             handleSystemAction({ type, query: fc.args.query as string });
-          });
-        }
-        addMessage('assistant', response.text || "Processed.");
-      } catch (err) {
-        addMessage('system', "Error communicating with Gemini.");
-      } finally {
-        setVoiceState(prev => ({ ...prev, isThinking: false }));
+    const command = parseSlashCommand(msg);
+    if (command) {
+      runSlashCommand(command);
+      return;
+    }
+    const images = attachments;
+    setAttachments([]);
+    await requestReply([...messagesRef.current, addMessage('user', unescapeCommand(msg), images.length ? { images } : undefined)]);
+  };
+
+  const suggestions = suggestCommands(inputText);
+  const typedCommand = commandBeingTyped(inputText);
+
+  const completeCommand = (name: string) => {
+    setInputText(`/${name} `);
+    setSuggestionIndex(0);
+  };
+
+  // Arrow keys pick an autocomplete suggestion while one is showing, otherwise they walk the input history
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const suggestion = suggestions[Math.min(suggestionIndex, suggestions.length - 1)];
+    if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      if (suggestions.length) {
+        setSuggestionIndex(prev => (Math.min(prev, suggestions.length - 1) + step + suggestions.length) % suggestions.length);
+        return;
       }
+      const recalled = inputHistory.current.step(step, inputText);
+      if (recalled !== null) setInputText(recalled);
+    } else if (e.key === 'Tab' && suggestion) {
+      e.preventDefault();
+      completeCommand(suggestion.name);
+    } else if (e.key === 'Enter') {
+      // Enter finishes a partly typed name first, unless it already names a command that needs nothing more
+      if (suggestion && !(inputText === `/${suggestion.name}` && !suggestion.requiresArg)) completeCommand(suggestion.name);
+      else handleSendText();
+    } else if (e.key === 'Escape' && inputText.startsWith('/')) {
+      setInputText('');
     }
   };
 
-  // Initial greeting if no messages
+  const paletteItems: PaletteItem[] = [
+    ...SLASH_COMMANDS.map(command => ({
+      id: `command-${command.name}`,
+      label: usage(command),
+      hint: command.description,
+      icon: command.icon,
+      // Commands that need an argument are started in the text box for the user to finish
+      run: command.requiresArg
+        ? () => {
+          setInputText(`/${command.name} `);
+          textInput.current?.focus();
+        }
+        : () => runSlashCommand({ command, arg: '' })
+    })),
+    ...QUICK_ACTIONS.map(({ label, icon, action }) => ({
+      id: `quick-${label}`,
+      label,
+      hint: 'Quick action',
+      icon,
+      run: () => { handleSystemAction(action, 'user'); }
+    }))
+  ];
+
   useEffect(() => {
-    if (messages.length === 0) {
-      addMessage('assistant', `Namaste! I am your ${personality === Personality.FEMALE ? 'Yuna' : 'Hiro'}. Main aapki system commands ya music search karne me help kar sakti hoon! Speak to me or type below.`);
-    }
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setShowPalette(prev => !prev);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  useEffect(() => {
+    const publisher = createOverlayPublisher();
+    publisher.onHello(() => {
+      if (!overlayLatest.current) return;
+      publisher.publishPersona(overlayLatest.current.persona);
+      publisher.publishState(overlayLatest.current.state);
+    });
+    overlay.current = publisher;
+    return () => {
+      publisher.close();
+      overlay.current = null;
+    };
   }, []);
 
+  const overlaySubtitle = display(voiceState.assistantTranscript || streamingReply || '');
+  useEffect(() => {
+    const state: OverlayState = { voiceState, isLocal: isLocalMode, backendLabel: BACKEND_LABELS[backendSettings.active], subtitle: overlaySubtitle };
+    const personaChanged = overlayLatest.current?.persona !== persona;
+    overlayLatest.current = { persona, state };
+    if (personaChanged) overlay.current?.publishPersona(persona);
+    overlay.current?.publishState(state);
+  }, [persona, voiceState, isLocalMode, backendSettings.active, overlaySubtitle]);
+
+  // The overlay has no audio of its own, so mouth movement is streamed over while the assistant talks
+  useEffect(() => {
+    if (!voiceState.isSpeaking) return;
+    const timer = setInterval(() => overlay.current?.publishFrame(getLipSyncFrame()), OVERLAY_FRAME_MS);
+    return () => clearInterval(timer);
+  }, [voiceState.isSpeaking, getLipSyncFrame]);
+
+  // Load conversations (migrating the old localStorage history once), or start the first one with a greeting
+  useEffect(() => {
+    // StrictMode runs effects twice in development; migrate and create only once
+    if (hasLoadedConversations.current) return;
+    hasLoadedConversations.current = true;
+    (async () => {
+      await migrateLegacyHistory(STORAGE_KEY, SUMMARY_STORAGE_KEY);
+      const stored = await listConversations();
+      setConversations(stored);
+      if (stored.length) openConversation(stored[0]);
+      else startConversation();
+    })().catch(e => {
+      console.error("Failed to load conversations", e);
+      startConversation();
+    });
+  }, []);
+
+  // Due timers and reminders (including ones missed while the page was closed) are logged, notified and spoken.
+  // Nothing fires before a conversation is open, or opening it would wipe the log line.
+  useEffect(() => activeConversationId ? scheduleReminders(reminders, due => {
+    const ids = new Set(due.map(r => r.id));
+    setReminders(prev => prev.filter(r => !ids.has(r.id)));
+    const texts = due.map(r => announcement(r));
+    due.forEach((r, i) => {
+      addMessage('system', texts[i]);
+      notify(persona.name, { body: texts[i], icon: persona.avatarUrl, tag: r.id });
+    });
+    // A Live session speaks it in the persona's Gemini voice, otherwise the local voice does
+    if (sessionRef.current) {
+      const text = `[Scheduled alert, not said by the user] ${texts.join(' ')} Announce this to the user in one short sentence.`;
+      sessionRef.current.then(s => s.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: true }));
+    } else {
+      announceLocal(texts.join(' '));
+    }
+  }) : undefined, [reminders, persona, voiceSettings, activeConversationId]);
+
+  // Nothing keeps the mic, audio contexts or a Live connection alive once the app goes away
+  useEffect(() => () => releaseVoice(), []);
+
+  // Persist the open conversation whenever its messages, persona or backend change
+  useEffect(() => {
+    const current = activeConversation.current;
+    if (!current || (current.messages === messages && current.personaId === persona.id && current.backend === backendSettings.active)) return;
+    persistConversation({ ...current, messages, personaId: persona.id, backend: backendSettings.active, updatedAt: Date.now() });
+  }, [messages, persona.id, backendSettings.active]);
+
+  const listenLabel = voiceState.connection === 'connecting' ? 'CONNECTING...'
+    : voiceState.connection === 'reconnecting' ? 'RECONNECTING...'
+    : !voiceState.isActive ? 'PUSH TO START'
+    : voiceState.listenState === 'listening' ? 'LISTENING...'
+    : voiceState.listenState === 'armed' ? (voiceSettings.wakeWord && voiceSettings.handsFree ? `SAY "${wakePhraseFor(persona.name).toUpperCase()}"` : 'WAITING FOR SPEECH...')
+    : 'STANDBY';
+
   return (
     <div className="max-w-7xl mx-auto p-4 md:p-8 flex flex-col md:flex-row gap-8">
-      {/* Left: Personality & Control */}
+      {/* Left: Persona & Control */}
       <div className="w-full md:w-1/2 flex flex-col gap-6">
         <div className="flex items-center justify-between p-4 glass rounded-3xl border-violet-500/20 shadow-2xl">
           <div>
@@ -344,24 +1363,41 @@ export default function App() {
             <p className="text-[10px] text-slate-500 tracking-[0.2em] uppercase font-semibold">Virtual System Assistant</p>
           </div>
           <div className="flex flex-col items-end gap-1">
-            <div className="flex gap-2 bg-slate-900/50 p-1 rounded-xl border border-white/5">
-              <button onClick={() => setPersonality(Personality.FEMALE)} className={`px-4 py-2 rounded-lg text-xs transition-all ${personality === Personality.FEMALE ? 'bg-violet-600 shadow-lg text-white' : 'text-slate-500 hover:text-white'}`}>YUNA</button>
-              <button onClick={() => setPersonality(Personality.MALE)} className={`px-4 py-2 rounded-lg text-xs transition-all ${personality === Personality.MALE ? 'bg-violet-600 shadow-lg text-white' : 'text-slate-500 hover:text-white'}`}>HIRO</button>
+            <div className="flex flex-wrap justify-end gap-2 bg-slate-900/50 p-1 rounded-xl border border-white/5">
+              {personas.map(p => (
+                <button key={p.id} onClick={() => setPersonaId(p.id)} className={`px-4 py-2 rounded-lg text-xs uppercase transition-all ${p.id === persona.id ? 'bg-violet-600 shadow-lg text-white' : 'text-slate-500 hover:text-white'}`}>{p.name}</button>
+              ))}
+              <button onClick={() => setShowPersonaEditor(true)} className="px-3 py-2 rounded-lg text-xs text-slate-500 hover:text-white transition-all" title="Edit Personas">
+                <i className="fas fa-user-edit" />
+              </button>
             </div>
             <div className="flex items-center gap-2 mt-2">
-              <span className={`text-[10px] ${!isLocalMode ? 'text-cyan-400' : 'text-slate-500'}`}>CLOUD</span>
-              <button 
-                onClick={() => setIsLocalMode(!isLocalMode)}
-                className={`w-10 h-5 rounded-full relative transition-colors ${isLocalMode ? 'bg-orange-600' : 'bg-slate-700'}`}
+              <select
+                value={backendSettings.active}
+                onChange={(e) => switchBackend(e.target.value as BackendSettings['active'])}
+                className={`bg-slate-900/50 border border-white/5 rounded-lg px-2 py-1 text-[10px] font-bold uppercase focus:outline-none ${isLocalMode ? 'text-orange-400' : 'text-cyan-400'}`}
               >
-                <div className={`absolute top-1 w-3 h-3 rounded-full bg-white transition-all ${isLocalMode ? 'right-1' : 'left-1'}`} />
+                {Object.entries(BACKEND_LABELS).map(([kind, label]) => (
+                  <option key={kind} value={kind}>{label}</option>
+                ))}
+              </select>
+              <button onClick={() => setShowBackendSettings(true)} className="text-slate-500 hover:text-white transition-colors" title="Backend Settings">
+                <i className="fas fa-cog text-xs" />
+              </button>
+              <button onClick={() => setShowGeminiKey(true)} className="text-slate-500 hover:text-white transition-colors" title="Gemini API Key">
+                <i className="fas fa-key text-xs" />
+              </button>
+              <button onClick={() => setShowActions(true)} className="text-slate-500 hover:text-white transition-colors" title="System Actions">
+                <i className="fas fa-bolt text-xs" />
+              </button>
+              <button onClick={() => window.open('/overlay', 'ani-mate-overlay')} className="text-slate-500 hover:text-white transition-colors" title="Open Stream Overlay">
+                <i className="fas fa-broadcast-tower text-xs" />
               </button>
-              <span className={`text-[10px] ${isLocalMode ? 'text-orange-400' : 'text-slate-500'}`}>LOCAL</span>
             </div>
           </div>
         </div>
 
-        <CharacterDisplay personality={personality} isSpeaking={voiceState.isSpeaking} isLocal={isLocalMode} />
+        <CharacterDisplay persona={persona} voiceState={voiceState} isLocal={isLocalMode} getFrame={getLipSyncFrame} backendLabel={BACKEND_LABELS[backendSettings.active]} />
 
         <div className="p-8 glass rounded-3xl flex flex-col items-center gap-4 relative overflow-hidden group">
           <div className="absolute inset-0 bg-violet-600/5 opacity-0 group-hover:opacity-100 transition-opacity" />
@@ -372,32 +1408,139 @@ export default function App() {
             <i className={`fas ${voiceState.isActive ? 'fa-square' : 'fa-microphone'} text-3xl text-white`} />
           </button>
           <div className="text-center z-10">
-            <h3 className="font-bold text-slate-100">{voiceState.isActive ? 'LISTENING...' : 'PUSH TO START'}</h3>
+            <h3 className="font-bold text-slate-100">{listenLabel}</h3>
             <p className="text-xs text-slate-500 uppercase tracking-widest mt-1">
-              {isLocalMode ? 'Using Local Ollama (Free & Offline)' : 'Using Gemini Cloud (Free Tier)'}
+              {isLocalMode ? `Using Local ${BACKEND_LABELS[backendSettings.active]} (Free & Offline)` : 'Using Gemini Cloud (Free Tier)'}
             </p>
+            {voiceState.connectionDetail && (
+              <p className={`text-[11px] mt-2 ${voiceState.connection === 'error' ? 'text-red-400' : 'text-orange-300 animate-pulse'}`}>
+                <i className={`fas ${voiceState.connection === 'error' ? 'fa-exclamation-triangle' : 'fa-sync-alt'} mr-1`} />
+                {voiceState.connectionDetail}
+              </p>
+            )}
           </div>
+          <div className="flex items-center gap-2 z-10">
+            <button
+              onClick={() => setVoiceSettings(prev => ({ ...prev, handsFree: !prev.handsFree }))}
+              disabled={voiceState.isActive}
+              className={`px-3 py-1 rounded-full border text-[10px] font-bold uppercase tracking-widest transition-all disabled:opacity-50 ${voiceSettings.handsFree ? 'border-violet-500/50 bg-violet-600/20 text-violet-300' : 'border-white/10 text-slate-500 hover:text-white'}`}
+              title={voiceState.isActive ? 'Takes effect next time the mic starts' : 'Keep listening after each reply'}
+            >
+              <i className="fas fa-infinity mr-1" /> Hands-free
+            </button>
+            {!isLocalMode && (['camera', 'screen'] as VideoSource[]).map(source => (
+              <button
+                key={source}
+                onClick={() => toggleVision(source)}
+                disabled={!voiceState.isActive}
+                className={`px-3 py-1 rounded-full border text-[10px] font-bold uppercase tracking-widest transition-all disabled:opacity-50 ${vision?.source === source ? 'border-cyan-500/50 bg-cyan-600/20 text-cyan-300' : 'border-white/10 text-slate-500 hover:text-white'}`}
+                title={voiceState.isActive ? `Let Gemini see your ${source}` : 'Start a voice session first'}
+              >
+                <i className={`fas ${source === 'camera' ? 'fa-video' : 'fa-desktop'} mr-1`} /> {source === 'camera' ? 'Camera' : 'Screen'}
+              </button>
+            ))}
+            {!isLocalMode && (
+              <button
+                onClick={toggleRecording}
+                className={`px-3 py-1 rounded-full border text-[10px] font-bold uppercase tracking-widest transition-all ${isRecording ? 'border-red-500/50 bg-red-600/20 text-red-300' : 'border-white/10 text-slate-500 hover:text-white'}`}
+                title={isRecording ? 'Stop recording' : 'Record the voice session'}
+              >
+                <i className={`fas fa-circle mr-1 ${isRecording ? 'animate-pulse' : ''}`} /> Rec
+              </button>
+            )}
+            <button onClick={() => setShowVoiceSettings(true)} className="text-slate-500 hover:text-white transition-colors" title="Voice Settings">
+              <i className="fas fa-sliders-h text-xs" />
+            </button>
+          </div>
+          {lastRecording && (
+            <div className="flex items-center gap-3 z-10 px-4 py-2 rounded-xl bg-slate-900/60 border border-white/5">
+              <span className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">
+                Recording · {Math.round(lastRecording.recorder.durationMs() / 1000)}s
+              </span>
+              {(['wav', 'srt', 'vtt'] as const).map(format => (
+                <button key={format} onClick={() => downloadRecording(format)} className="text-[10px] text-violet-400 hover:text-violet-300 uppercase font-bold tracking-widest">
+                  {format}
+                </button>
+              ))}
+              <button onClick={() => setLastRecording(null)} className="text-slate-500 hover:text-white" title="Discard">
+                <i className="fas fa-times text-[10px]" />
+              </button>
+            </div>
+          )}
+          {vision && <video ref={visionPreview} autoPlay muted playsInline className="w-40 rounded-xl border border-white/10 z-10" />}
         </div>
 
         <div className="grid grid-cols-2 gap-4">
-          <button onClick={() => handleSystemAction({ type: 'music', query: 'japanese lofi' })} className="p-4 glass rounded-2xl flex items-center justify-center gap-3 hover:bg-white/5 transition-all">
-            <i className="fas fa-play text-violet-400" /> <span className="text-xs font-bold uppercase tracking-widest">Anime Music</span>
-          </button>
-          <button onClick={() => handleSystemAction({ type: 'youtube', query: 'vtube highlights' })} className="p-4 glass rounded-2xl flex items-center justify-center gap-3 hover:bg-white/5 transition-all">
-            <i className="fab fa-youtube text-red-500" /> <span className="text-xs font-bold uppercase tracking-widest">YouTube</span>
-          </button>
+          {QUICK_ACTIONS.map(({ label, icon, action }) => (
+            <button key={label} onClick={() => handleSystemAction(action, 'user')} className="p-4 glass rounded-2xl flex items-center justify-center gap-3 hover:bg-white/5 transition-all">
+              <i className={icon} /> <span className="text-xs font-bold uppercase tracking-widest">{label}</span>
+            </button>
+          ))}
         </div>
       </div>
 
       {/* Right: Interface */}
-      <div className="w-full md:w-1/2 flex flex-col h-[85vh] glass rounded-[2.5rem] border border-white/5 shadow-2xl overflow-hidden">
+      <div
+        className="relative w-full md:w-1/2 flex flex-col h-[85vh] glass rounded-[2.5rem] border border-white/5 shadow-2xl overflow-hidden"
+        onDragOver={e => {
+          if (!e.dataTransfer.types.includes('Files')) return;
+          e.preventDefault();
+          setIsDraggingImage(true);
+        }}
+        onDrop={e => {
+          e.preventDefault();
+          setIsDraggingImage(false);
+          addAttachments(Array.from(e.dataTransfer.files));
+        }}
+      >
+        {isDraggingImage && (
+          <div
+            className="absolute inset-0 z-30 flex items-center justify-center bg-violet-950/70 border-2 border-dashed border-violet-500/60 rounded-[2.5rem] text-violet-200 text-xs font-bold uppercase tracking-widest"
+            onDragLeave={() => setIsDraggingImage(false)}
+          >
+            <i className="fas fa-image mr-2" /> Drop images to attach
+          </div>
+        )}
         <div className="px-8 py-6 border-b border-white/5 bg-slate-900/30 flex justify-between items-center">
           <div className="flex items-center gap-3">
             <div className={`w-2.5 h-2.5 rounded-full ${voiceState.isActive ? 'bg-green-500 animate-pulse' : 'bg-slate-700'}`} />
-            <h2 className="text-xs font-black uppercase tracking-[0.3em] text-slate-400">Terminal Log</h2>
+            <div>
+              <h2 className="text-xs font-black uppercase tracking-[0.3em] text-slate-400">Terminal Log</h2>
+              {activeConversation.current && (
+                <p className="text-[10px] text-slate-600 truncate max-w-[12rem]">{conversationTitle({ ...activeConversation.current, messages })}</p>
+              )}
+            </div>
           </div>
           <div className="flex items-center gap-4">
             {voiceState.isThinking && <div className="text-[10px] text-violet-400 font-bold animate-pulse">SYSTEM_PROCESSING...</div>}
+            <button 
+              onClick={() => setShowConversations(true)}
+              className="text-[10px] text-slate-500 hover:text-violet-400 transition-colors uppercase font-bold tracking-widest"
+              title="Conversations"
+            >
+              <i className="fas fa-comments mr-1" /> Chats
+            </button>
+            <button 
+              onClick={() => setShowReminders(true)}
+              className="text-[10px] text-slate-500 hover:text-violet-400 transition-colors uppercase font-bold tracking-widest"
+              title="Timers & Reminders"
+            >
+              <i className="fas fa-bell mr-1" /> Timers{reminders.length > 0 && <span className="ml-1 text-violet-400">{reminders.length}</span>}
+            </button>
+            <button 
+              onClick={() => setShowMemories(true)}
+              className="text-[10px] text-slate-500 hover:text-violet-400 transition-colors uppercase font-bold tracking-widest"
+              title="Memories"
+            >
+              <i className="fas fa-brain mr-1" /> Memory
+            </button>
+            <button 
+              onClick={() => setShowActionLog(true)}
+              className="text-[10px] text-slate-500 hover:text-violet-400 transition-colors uppercase font-bold tracking-widest"
+              title="Action History"
+            >
+              <i className="fas fa-history mr-1" /> Actions
+            </button>
             <button 
               onClick={clearHistory}
               className="text-[10px] text-slate-500 hover:text-red-400 transition-colors uppercase font-bold tracking-widest"
@@ -409,19 +1552,53 @@ export default function App() {
         </div>
 
         <div className="flex-1 overflow-y-auto p-8 space-y-6 scroll-smooth">
-          {messages.map((m, i) => (
-            <div key={i} className={`flex ${m.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-              <div className={`max-w-[85%] p-5 rounded-3xl ${m.role === 'user' ? 'bg-violet-600 text-white shadow-xl shadow-violet-900/20' : m.role === 'system' ? 'bg-slate-800/50 border border-slate-700 text-slate-400 font-mono text-[11px]' : 'bg-slate-800 border border-white/5 text-slate-200 shadow-xl'}`}>
-                {m.role === 'system' && <span className="text-violet-400 mr-2">>></span>}
-                <p className="text-sm leading-relaxed">{m.content}</p>
-                <div className="text-[9px] opacity-40 mt-2 font-mono">{new Date(m.timestamp).toLocaleTimeString()}</div>
+          {messages.map((m, i) => {
+            const action = m.actionId ? actionsById.get(m.actionId) : undefined;
+            return (
+              <div key={i} className={`flex ${m.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                <div className={`max-w-[85%] p-5 rounded-3xl ${m.role === 'user' ? 'bg-violet-600 text-white shadow-xl shadow-violet-900/20' : m.role === 'system' ? 'bg-slate-800/50 border border-slate-700 text-slate-400 font-mono text-[11px]' : 'bg-slate-800 border border-white/5 text-slate-200 shadow-xl'}`}>
+                  {action ? (
+                    <ActionCard record={action} onApprove={approveAction} onDeny={denyAction} onOpen={approveAction} />
+                  ) : (
+                    <>
+                      {m.role === 'system' && <span className="text-violet-400 mr-2">{'>>'}</span>}
+                      {m.images?.length ? (
+                        <div className="flex flex-wrap gap-2 mb-2">
+                          {m.images.map((image, j) => <img key={j} src={toDataUrl(image)} alt="" className="max-h-40 max-w-full rounded-xl object-cover" />)}
+                        </div>
+                      ) : null}
+                      {m.content && <p className="text-sm leading-relaxed">{m.role === 'system' ? m.content : display(m.content)}</p>}
+                    </>
+                  )}
+                  <div className="text-[9px] opacity-40 mt-2 font-mono">
+                    {new Date(m.timestamp).toLocaleTimeString()}
+                    {m.interrupted && <span className="ml-2 uppercase tracking-widest">· Interrupted</span>}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+          {streamingReply !== null && (
+            <div className="flex justify-start">
+              <div className="max-w-[85%] p-5 rounded-3xl bg-slate-800 border border-white/5 text-slate-200 shadow-xl">
+                <p className="text-sm leading-relaxed">
+                  {display(streamingReply)}
+                  <span className="inline-block w-1.5 h-4 ml-1 align-middle bg-violet-400 animate-pulse" />
+                </p>
               </div>
             </div>
-          ))}
-          {voiceState.transcription && (
+          )}
+          {voiceState.userTranscript && (
             <div className="flex justify-end">
               <div className="bg-violet-500/20 border border-dashed border-violet-500/50 p-4 rounded-3xl animate-pulse">
-                <p className="text-sm text-violet-300 italic">"{voiceState.transcription}"</p>
+                <p className="text-sm text-violet-300 italic">"{display(voiceState.userTranscript)}"</p>
+              </div>
+            </div>
+          )}
+          {voiceState.assistantTranscript && (
+            <div className="flex justify-start">
+              <div className="max-w-[85%] p-5 rounded-3xl bg-slate-800/60 border border-dashed border-white/10 text-slate-300 shadow-xl">
+                <p className="text-sm leading-relaxed">{display(voiceState.assistantTranscript)}</p>
               </div>
             </div>
           )}
@@ -429,29 +1606,190 @@ export default function App() {
         </div>
 
         <div className="p-8 bg-slate-900/50 border-t border-white/5">
+          {attachments.length > 0 && (
+            <div className="flex gap-3 mb-4">
+              {attachments.map((image, i) => (
+                <div key={i} className="relative">
+                  <img src={toDataUrl(image)} alt="" className="w-16 h-16 rounded-xl object-cover border border-white/10" />
+                  <button
+                    onClick={() => setAttachments(prev => prev.filter((_, j) => j !== i))}
+                    className="absolute -top-2 -right-2 w-5 h-5 rounded-full bg-slate-900 border border-white/10 text-[9px] text-slate-400 hover:text-white"
+                    title="Remove"
+                  >
+                    <i className="fas fa-times" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
           <div className="relative flex items-center gap-3">
+            {suggestions.length > 0 && (
+              <div className="absolute bottom-full left-0 right-0 mb-3 p-2 rounded-2xl bg-slate-950/95 border border-white/10 shadow-2xl z-20">
+                {suggestions.map((command, i) => (
+                  <button
+                    key={command.name}
+                    onMouseDown={e => e.preventDefault()}
+                    onClick={() => completeCommand(command.name)}
+                    className={`w-full flex items-center gap-3 px-4 py-2 rounded-xl text-left transition-all ${i === Math.min(suggestionIndex, suggestions.length - 1) ? 'bg-violet-600/20 text-white' : 'text-slate-400'}`}
+                  >
+                    <i className={`${command.icon} w-4 text-center text-violet-400 text-xs`} />
+                    <span className="text-sm font-mono">{usage(command)}</span>
+                    <span className="text-[10px] text-slate-500 ml-auto">{command.description}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+            <button
+              onClick={() => attachmentInput.current?.click()}
+              disabled={attachments.length >= MAX_ATTACHMENTS}
+              className="text-slate-500 hover:text-violet-400 disabled:opacity-30 transition-colors"
+              title="Attach Image"
+            >
+              <i className="fas fa-paperclip" />
+            </button>
             <input
+              ref={attachmentInput}
+              type="file"
+              accept="image/*"
+              multiple
+              className="hidden"
+              onChange={e => {
+                addAttachments(Array.from(e.target.files || []));
+                e.target.value = '';
+              }}
+            />
+            <input
+              onPaste={(e) => {
+                const files = Array.from<File>(e.clipboardData.files);
+                if (!files.some(f => f.type.startsWith('image/'))) return;
+                e.preventDefault();
+                addAttachments(files);
+              }}
+              ref={textInput}
               type="text"
               value={inputText}
-              onChange={(e) => setInputText(e.target.value)}
-              onKeyDown={(e) => e.key === 'Enter' && handleSendText()}
-              placeholder={isLocalMode ? "Local command (Ollama)..." : "Cloud command (Gemini)..."}
+              onChange={(e) => {
+                setInputText(e.target.value);
+                setSuggestionIndex(0);
+              }}
+              onKeyDown={handleInputKeyDown}
+              placeholder={isLocalMode ? `Local command (${BACKEND_LABELS[backendSettings.active]})...` : "Cloud command (Gemini)..."}
               className="flex-1 bg-slate-950/80 border border-white/10 rounded-2xl px-6 py-4 text-sm focus:outline-none focus:border-violet-500 focus:ring-1 focus:ring-violet-500/50 transition-all text-slate-200"
             />
-            <button 
-              onClick={handleSendText}
-              disabled={voiceState.isThinking || !inputText.trim()}
-              className="w-14 h-14 bg-violet-600 hover:bg-violet-500 disabled:bg-slate-800 disabled:text-slate-600 rounded-2xl flex items-center justify-center transition-all shadow-lg shadow-violet-900/20"
-            >
-              <i className="fas fa-location-arrow" />
-            </button>
+            {streamingReply !== null || (isLocalMode && voiceState.isSpeaking) ? (
+              <button 
+                onClick={cancelReply}
+                className="w-14 h-14 bg-red-500 hover:bg-red-400 rounded-2xl flex items-center justify-center transition-all shadow-lg shadow-red-900/20"
+                title="Stop Reply"
+              >
+                <i className="fas fa-stop" />
+              </button>
+            ) : (
+              <button 
+                onClick={handleSendText}
+                disabled={voiceState.isThinking || (!inputText.trim() && attachments.length === 0)}
+                className="w-14 h-14 bg-violet-600 hover:bg-violet-500 disabled:bg-slate-800 disabled:text-slate-600 rounded-2xl flex items-center justify-center transition-all shadow-lg shadow-violet-900/20"
+              >
+                <i className="fas fa-location-arrow" />
+              </button>
+            )}
           </div>
           <div className="flex justify-between mt-4 px-1">
-            <span className="text-[9px] text-slate-500 font-bold uppercase tracking-widest">Model: {isLocalMode ? 'LLama 3.2 3B' : 'Gemini 3 Flash'}</span>
+            {typedCommand ? (
+              <span className="text-[9px] text-violet-400 font-bold tracking-widest font-mono">
+                {usage(typedCommand)} · {typedCommand.name === 'persona' ? personas.map(p => p.name).join(' | ') : typedCommand.description}
+              </span>
+            ) : (
+              <span className="text-[9px] text-slate-500 font-bold uppercase tracking-widest">Model: {provider.model} · / for commands · Ctrl+K</span>
+            )}
             <span className="text-[9px] text-slate-500 font-bold uppercase tracking-widest">Status: {navigator.onLine ? 'ONLINE' : 'OFFLINE'}</span>
           </div>
         </div>
       </div>
+
+      {showBackendSettings && (
+        <BackendSettingsPanel
+          settings={backendSettings}
+          onSave={setBackendSettings}
+          onClose={() => setShowBackendSettings(false)}
+        />
+      )}
+      {showGeminiKey && (
+        <GeminiKeyPanel
+          settings={geminiKey}
+          onSave={setGeminiKey}
+          onClose={() => setShowGeminiKey(false)}
+        />
+      )}
+      {showActions && (
+        <CustomActionsPanel
+          actions={customActions}
+          onChange={setCustomActions}
+          policies={actionPolicies}
+          onPolicyChange={(name, policy) => setActionPolicies(prev => ({ ...prev, [name]: policy }))}
+          onClose={() => setShowActions(false)}
+        />
+      )}
+      {showConversations && (
+        <ConversationsPanel
+          conversations={conversations}
+          personaNames={Object.fromEntries(personas.map(p => [p.id, p.name]))}
+          activeId={activeConversationId}
+          onOpen={(id) => {
+            const conversation = conversations.find(c => c.id === id);
+            if (conversation && id !== activeConversationId) openConversation(conversation);
+          }}
+          onNew={startConversation}
+          onRename={(id, title) => updateConversation(id, { title })}
+          onDelete={removeConversation}
+          onImport={importConversations}
+          onClose={() => setShowConversations(false)}
+        />
+      )}
+      {showPersonaEditor && (
+        <PersonaEditor
+          personas={personas}
+          activeId={persona.id}
+          onChange={setPersonas}
+          onSelect={setPersonaId}
+          saveError={personaSaveError}
+          onClose={() => setShowPersonaEditor(false)}
+        />
+      )}
+      {showVoiceSettings && (
+        <VoiceSettingsPanel
+          settings={voiceSettings}
+          wakePhrase={wakePhraseFor(persona.name)}
+          personaLanguage={persona.language}
+          onSave={setVoiceSettings}
+          onClose={() => setShowVoiceSettings(false)}
+        />
+      )}
+      {showMemories && (
+        <MemoriesPanel
+          memories={memories}
+          onChange={setMemories}
+          settings={memorySettings}
+          onSettingsChange={setMemorySettings}
+          onClose={() => setShowMemories(false)}
+        />
+      )}
+      {showReminders && (
+        <RemindersPanel
+          reminders={reminders}
+          onCancel={id => setReminders(prev => prev.filter(r => r.id !== id))}
+          onClose={() => setShowReminders(false)}
+        />
+      )}
+      {showPalette && <CommandPalette items={paletteItems} onClose={() => setShowPalette(false)} />}
+      {showActionLog && (
+        <ActionLogPanel
+          records={actionLog}
+          onOpen={approveAction}
+          onClear={() => setActionLog(prev => prev.filter(r => r.status === 'pending'))}
+          onClose={() => setShowActionLog(false)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,49 @@
+import React from 'react';
+import { ActionRecord } from '../types';
+import { STATUS_LABELS } from '../services/action-policy';
+
+const STATUS_COLORS: Record<ActionRecord['status'], string> = {
+  pending: 'text-amber-400',
+  opened: 'text-green-400',
+  blocked: 'text-orange-400',
+  done: 'text-green-400',
+  denied: 'text-red-400',
+  rejected: 'text-red-400',
+  rate_limited: 'text-red-400',
+  expired: 'text-slate-500'
+};
+
+const ActionCard: React.FC<{
+  record: ActionRecord,
+  onApprove: (record: ActionRecord) => void,
+  onDeny: (record: ActionRecord) => void,
+  onOpen: (record: ActionRecord) => void
+}> = ({ record, onApprove, onDeny, onOpen }) => (
+  <div className="flex flex-col gap-2">
+    <div className="flex items-center gap-2">
+      <i className="fas fa-bolt text-violet-400" />
+      <span className="text-slate-300">{record.summary}</span>
+    </div>
+    {record.url && <div className="text-[10px] text-slate-500 truncate">{record.url}</div>}
+    <div className="flex items-center justify-between gap-3">
+      <span className={`text-[10px] font-bold uppercase tracking-widest ${STATUS_COLORS[record.status]}`}>
+        {STATUS_LABELS[record.status]}{record.detail && record.status !== 'pending' ? ` · ${record.detail}` : ''}
+      </span>
+      <div className="flex gap-2">
+        {record.status === 'pending' && (
+          <>
+            <button onClick={() => onApprove(record)} className="px-3 py-1 rounded-lg bg-violet-600 hover:bg-violet-500 text-white text-[10px] font-bold uppercase">Allow</button>
+            <button onClick={() => onDeny(record)} className="px-3 py-1 rounded-lg bg-slate-700 hover:bg-slate-600 text-white text-[10px] font-bold uppercase">Deny</button>
+          </>
+        )}
+        {record.url && (record.status === 'blocked' || record.status === 'expired') && (
+          <button onClick={() => onOpen(record)} className="px-3 py-1 rounded-lg bg-violet-600 hover:bg-violet-500 text-white text-[10px] font-bold uppercase">
+            <i className="fas fa-external-link-alt mr-1" /> Open
+          </button>
+        )}
+      </div>
+    </div>
+  </div>
+);
+
+export default ActionCard;
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { ActionRecord, ActionStatus } from '../types';
+import { STATUS_LABELS } from '../services/action-policy';
+
+const ActionLogPanel: React.FC<{
+  records: ActionRecord[],
+  onOpen: (record: ActionRecord) => void,
+  onClear: () => void,
+  onClose: () => void
+}> = ({ records, onOpen, onClear, onClose }) => {
+  const [status, setStatus] = useState<ActionStatus | 'all'>('all');
+  const [source, setSource] = useState<ActionRecord['source'] | 'all'>('all');
+  const [query, setQuery] = useState('');
+
+  const needle = query.trim().toLowerCase();
+  const visible = records
+    .filter(r => status === 'all' || r.status === status)
+    .filter(r => source === 'all' || r.source === source)
+    .filter(r => !needle || `${r.label} ${r.summary} ${r.url || ''}`.toLowerCase().includes(needle))
+    .slice()
+    .reverse();
+
+  const selectClass = "bg-slate-950/80 border border-white/10 rounded-xl px-3 py-2 text-xs focus:outline-none focus:border-violet-500 text-slate-200";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="w-full max-w-2xl max-h-[90vh] glass rounded-3xl p-8 flex flex-col gap-5" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center">
+          <h2 className="text-xs font-black uppercase tracking-[0.3em] text-slate-400">Action History</h2>
+          <div className="flex items-center gap-4">
+            <button onClick={onClear} className="text-[10px] text-slate-500 hover:text-red-400 transition-colors uppercase font-bold tracking-widest">
+              <i className="fas fa-trash-alt mr-1" /> Clear
+            </button>
+            <button onClick={onClose} className="text-slate-500 hover:text-white"><i className="fas fa-times" /></button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <input value={query} onChange={e => setQuery(e.target.value)} placeholder="Filter..." className={`${selectClass} flex-1 min-w-[8rem]`} />
+          <select value={status} onChange={e => setStatus(e.target.value as ActionStatus | 'all')} className={selectClass}>
+            <option value="all">All statuses</option>
+            {Object.entries(STATUS_LABELS).map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+          </select>
+          <select value={source} onChange={e => setSource(e.target.value as ActionRecord['source'] | 'all')} className={selectClass}>
+            <option value="all">Any source</option>
+            <option value="assistant">Assistant</option>
+            <option value="user">Quick buttons</option>
+          </select>
+        </div>
+
+        <div className="flex-1 overflow-y-auto flex flex-col gap-2 font-mono text-[11px]">
+          {visible.length === 0 && <div className="text-slate-600 text-center py-8">No actions yet.</div>}
+          {visible.map(r => (
+            <div key={r.id} className="flex items-center justify-between gap-3 px-4 py-2 rounded-xl bg-slate-900/50 border border-white/5">
+              <div className="min-w-0">
+                <div className="text-slate-300 truncate">{r.summary}</div>
+                <div className="text-[9px] text-slate-500">
+                  {new Date(r.timestamp).toLocaleString()} · {r.source} · {STATUS_LABELS[r.status]}{r.detail ? ` · ${r.detail}` : ''}
+                </div>
+              </div>
+              {r.url && r.status !== 'pending' && (
+                <button onClick={() => onOpen(r)} className="text-slate-500 hover:text-violet-400" title="Open Again">
+                  <i className="fas fa-external-link-alt" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ActionLogPanel;
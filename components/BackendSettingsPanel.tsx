@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { BackendKind, BackendSettings } from '../types';
+import { BACKEND_LABELS, DEFAULT_BACKEND_SETTINGS } from '../services/llm-provider';
+
+const BACKENDS: BackendKind[] = ['gemini', 'ollama', 'openai'];
+
+const BackendSettingsPanel: React.FC<{
+  settings: BackendSettings,
+  onSave: (settings: BackendSettings) => void,
+  onClose: () => void
+}> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<BackendSettings>(settings);
+  const config = draft.configs[draft.active];
+
+  const updateConfig = (patch: Partial<typeof config>) => {
+    setDraft(prev => ({
+      ...prev,
+      configs: { ...prev.configs, [prev.active]: { ...prev.configs[prev.active], ...patch } }
+    }));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="w-full max-w-md glass rounded-3xl p-8 flex flex-col gap-5" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center">
+          <h2 className="text-xs font-black uppercase tracking-[0.3em] text-slate-400">Backend Settings</h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-white"><i className="fas fa-times" /></button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2 bg-slate-900/50 p-1 rounded-xl border border-white/5">
+          {BACKENDS.map(kind => (
+            <button
+              key={kind}
+              onClick={() => setDraft(prev => ({ ...prev, active: kind }))}
+              className={`px-2 py-2 rounded-lg text-[10px] font-bold uppercase transition-all ${draft.active === kind ? 'bg-violet-600 shadow-lg text-white' : 'text-slate-500 hover:text-white'}`}
+            >
+              {BACKEND_LABELS[kind]}
+            </button>
+          ))}
+        </div>
+
+        {draft.active !== 'gemini' && (
+          <label className="flex flex-col gap-2">
+            <span className="text-[10px] text-slate-500 font-bold uppercase tracking-widest">Endpoint URL</span>
+            <input
+              type="text"
+              value={config.endpoint}
+              onChange={e => updateConfig({ endpoint: e.target.value })}
+              placeholder={DEFAULT_BACKEND_SETTINGS.configs[draft.active].endpoint}
+              className="bg-slate-950/80 border border-white/10 rounded-xl px-4 py-3 text-sm focus:outline-none focus:border-violet-500 text-slate-200"
+            />
+          </label>
+        )}
+
+        <label className="flex flex-col gap-2">
+          <span className="text-[10px] text-slate-500 font-bold uppercase tracking-widest">Model</span>
+          <input
+            type="text"
+            value={config.model}
+            onChange={e => updateConfig({ model: e.target.value })}
+            placeholder={DEFAULT_BACKEND_SETTINGS.configs[draft.active].model}
+            className="bg-slate-950/80 border border-white/10 rounded-xl px-4 py-3 text-sm focus:outline-none focus:border-violet-500 text-slate-200"
+          />
+        </label>
+
+        <label className="flex flex-col gap-2">
+          <span className="text-[10px] text-slate-500 font-bold uppercase tracking-widest">Context Budget (characters, ~4 per token)</span>
+          <input
+            type="number"
+            min={500}
+            step={500}
+            value={draft.contextBudget}
+            onChange={e => setDraft(prev => ({ ...prev, contextBudget: Math.max(500, Number(e.target.value) || 0) }))}
+            className="bg-slate-950/80 border border-white/10 rounded-xl px-4 py-3 text-sm focus:outline-none focus:border-violet-500 text-slate-200"
+          />
+          <span className="text-[10px] text-slate-600">Older turns are summarized once the history outgrows this. Each attached image counts as 1,000.</span>
+        </label>
+
+        <div className="flex justify-between gap-3">
+          <button
+            onClick={() => setDraft(DEFAULT_BACKEND_SETTINGS)}
+            className="text-[10px] text-slate-500 hover:text-red-400 transition-colors uppercase font-bold tracking-widest"
+          >
+            Reset Defaults
+          </button>
+          <button
+            onClick={() => { onSave(draft); onClose(); }}
+            className="px-6 py-3 bg-violet-600 hover:bg-violet-500 rounded-xl text-xs font-bold uppercase tracking-widest transition-all"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackendSettingsPanel;
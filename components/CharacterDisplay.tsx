@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import { Persona, VoiceState } from '../types';
+import { mouthState, LipSyncFrame, SILENT_FRAME } from '../services/lip-sync';
+
+const BLINK_MS = 160;
+
+const CharacterDisplay: React.FC<{
+  persona: Persona,
+  voiceState: VoiceState,
+  isLocal: boolean,
+  backendLabel: string,
+  // Polled every animation frame while speaking
+  getFrame: () => LipSyncFrame,
+  // Just the character, on a transparent background, filling its parent (for the stream overlay)
+  bare?: boolean
+}> = ({ persona, voiceState, isLocal, backendLabel, getFrame, bare = false }) => {
+  const [frame, setFrame] = useState<LipSyncFrame>(SILENT_FRAME);
+  const [isBlinking, setIsBlinking] = useState(false);
+  const { isSpeaking, isThinking } = voiceState;
+  const sprites = persona.sprites || {};
+  const mouth = isSpeaking ? mouthState(frame.amplitude) : 'closed';
+
+  useEffect(() => {
+    if (!isSpeaking) {
+      setFrame(SILENT_FRAME);
+      return;
+    }
+    let raf = 0;
+    const tick = () => {
+      setFrame(getFrame());
+      raf = requestAnimationFrame(tick);
+    };
+    raf = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(raf);
+  }, [isSpeaking, getFrame]);
+
+  // Blink at irregular intervals, like a person would
+  useEffect(() => {
+    if (!sprites.blinking) return;
+    let timer: ReturnType<typeof setTimeout>;
+    const schedule = () => {
+      timer = setTimeout(() => {
+        setIsBlinking(true);
+        timer = setTimeout(() => {
+          setIsBlinking(false);
+          schedule();
+        }, BLINK_MS);
+      }, 2500 + Math.random() * 3500);
+    };
+    schedule();
+    return () => clearTimeout(timer);
+  }, [sprites.blinking]);
+
+  const base = (isThinking && !isSpeaking && sprites.thinking) || sprites.idle || persona.avatarUrl;
+  const layerClass = "absolute inset-0 h-full w-full object-cover transition-opacity duration-75";
+
+  return (
+    <div className={`relative w-full flex items-center justify-center overflow-hidden rounded-3xl group ${bare ? 'h-full' : 'h-[55vh] glass neon-border'}`}>
+      {!bare && (
+        <>
+          <div className="scanline" />
+          <div className="absolute top-4 left-4 z-20 flex items-center gap-2">
+            <span className={`w-2 h-2 rounded-full ${isLocal ? 'bg-orange-500 shadow-[0_0_8px_rgba(249,115,22,0.8)]' : 'bg-cyan-500 shadow-[0_0_8px_rgba(6,182,212,0.8)]'}`} />
+            <span className="text-[10px] font-bold tracking-tighter uppercase text-slate-400">
+              {isLocal ? `Local Mode (${backendLabel})` : 'Cloud Mode (Gemini)'}
+            </span>
+          </div>
+        </>
+      )}
+      <div
+        className={`relative h-full w-full character-float transition-all duration-700 brightness-90 contrast-110 group-hover:scale-105 ${isSpeaking ? 'saturate-150 brightness-110' : ''}`}
+        // Without a talking sprite, a slight swell with loudness stands in for mouth movement
+        style={sprites.talking ? undefined : { transform: `scale(${1 + frame.amplitude * 0.03})` }}
+      >
+        <img src={base} alt={persona.name} className={layerClass} />
+        {sprites.talking && (
+          <img src={sprites.talking} alt="" className={layerClass} style={{ opacity: mouth === 'open' ? 1 : mouth === 'half' ? 0.6 : 0 }} />
+        )}
+        {sprites.blinking && (
+          <img src={sprites.blinking} alt="" className={layerClass} style={{ opacity: isBlinking && mouth === 'closed' ? 1 : 0 }} />
+        )}
+      </div>
+      {!bare && <div className="absolute inset-0 bg-gradient-to-t from-slate-950 via-transparent to-transparent opacity-80" />}
+
+      {!bare && isThinking && !isSpeaking && (
+        <div className="absolute top-4 right-4 z-20 text-[10px] font-bold uppercase tracking-widest text-violet-300 animate-pulse">
+          <i className="fas fa-ellipsis-h mr-1" /> Thinking
+        </div>
+      )}
+
+      {isSpeaking && (
+        <div className="absolute bottom-10 left-1/2 -translate-x-1/2 flex items-end gap-1.5 h-12 z-20">
+          {frame.bands.map((level, i) => (
+            <div
+              key={i}
+              className="w-1.5 bg-violet-400 rounded-full transition-[height] duration-75"
+              style={{
+                height: `${Math.min(100, 15 + level * 85)}%`,
+                boxShadow: '0 0 10px rgba(167, 139, 250, 0.5)'
+              }}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CharacterDisplay;
@@ -0,0 +1,72 @@
+import React, { useEffect, useState } from 'react';
+
+export interface PaletteItem {
+  id: string;
+  label: string;
+  hint: string;
+  icon: string;
+  run: () => void;
+}
+
+const CommandPalette: React.FC<{
+  items: PaletteItem[],
+  onClose: () => void
+}> = ({ items, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState(0);
+  const needle = query.trim().toLowerCase();
+  const matches = items.filter(item => `${item.label} ${item.hint}`.toLowerCase().includes(needle));
+
+  useEffect(() => setSelected(0), [needle]);
+
+  const run = (item: PaletteItem | undefined) => {
+    if (!item) return;
+    onClose();
+    item.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setSelected(prev => matches.length ? (prev + step + matches.length) % matches.length : 0);
+    } else if (e.key === 'Enter') {
+      run(matches[selected]);
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center bg-slate-950/80 backdrop-blur-sm p-4 pt-[15vh]" onClick={onClose}>
+      <div className="w-full max-w-lg glass rounded-3xl p-4 flex flex-col gap-3" onClick={e => e.stopPropagation()}>
+        <input
+          autoFocus
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Type a command..."
+          className="bg-slate-950/80 border border-white/10 rounded-2xl px-5 py-3 text-sm focus:outline-none focus:border-violet-500 text-slate-200"
+        />
+        <div className="max-h-80 overflow-y-auto flex flex-col gap-1">
+          {matches.map((item, i) => (
+            <button
+              key={item.id}
+              onClick={() => run(item)}
+              onMouseEnter={() => setSelected(i)}
+              className={`flex items-center gap-3 px-4 py-3 rounded-xl text-left transition-all ${i === selected ? 'bg-violet-600/20 text-white' : 'text-slate-400'}`}
+            >
+              <i className={`${item.icon} w-4 text-center text-violet-400`} />
+              <span className="text-sm font-mono">{item.label}</span>
+              <span className="text-[10px] text-slate-500 truncate">{item.hint}</span>
+            </button>
+          ))}
+          {matches.length === 0 && <p className="text-xs text-slate-600 px-4 py-3">No matching commands.</p>}
+        </div>
+        <p className="text-[10px] text-slate-600 font-bold uppercase tracking-widest px-1">↑↓ to choose · Enter to run · Esc to close</p>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
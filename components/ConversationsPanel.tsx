@@ -0,0 +1,149 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Conversation } from '../types';
+import { conversationTitle, searchConversations, SearchHit } from '../services/conversation-store';
+import { parseImport, toJSONExport, toMarkdown } from '../services/conversation-export';
+import { downloadFile, slugify } from '../services/download';
+
+const ConversationsPanel: React.FC<{
+  conversations: Conversation[],
+  personaNames: Record<string, string>,
+  activeId: string | null,
+  onOpen: (id: string) => void,
+  onNew: () => void,
+  onRename: (id: string, title: string) => void,
+  onDelete: (id: string) => void,
+  onImport: (conversations: Conversation[]) => void,
+  onClose: () => void
+}> = ({ conversations, personaNames, activeId, onOpen, onNew, onRename, onDelete, onImport, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [hits, setHits] = useState<SearchHit[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+  const [error, setError] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!query.trim()) return setHits([]);
+    const timer = setTimeout(() => {
+      searchConversations(query).then(setHits).catch(e => console.error("Search failed", e));
+    }, 200);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const exportJSON = (list: Conversation[], name: string) => downloadFile(`${slugify(name)}.json`, toJSONExport(list), 'application/json');
+  const exportMarkdown = (c: Conversation) => downloadFile(`${slugify(conversationTitle(c))}.md`, toMarkdown(c), 'text/markdown');
+
+  const importFile = async (file: File) => {
+    try {
+      onImport(parseImport(await file.text(), file.name));
+      setError('');
+    } catch (e) {
+      setError(`Import failed: ${e instanceof Error ? e.message : e}`);
+    }
+  };
+
+  const commitRename = () => {
+    if (editingId) onRename(editingId, editTitle.trim());
+    setEditingId(null);
+  };
+
+  const iconButton = "text-slate-500 hover:text-violet-400 transition-colors";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="w-full max-w-2xl max-h-[90vh] glass rounded-3xl p-8 flex flex-col gap-5" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center">
+          <h2 className="text-xs font-black uppercase tracking-[0.3em] text-slate-400">Conversations</h2>
+          <div className="flex items-center gap-4">
+            <button onClick={() => fileInput.current?.click()} className="text-[10px] text-slate-500 hover:text-violet-400 uppercase font-bold tracking-widest">
+              <i className="fas fa-file-import mr-1" /> Import
+            </button>
+            <button onClick={() => exportJSON(conversations, 'ani-mate-conversations')} className="text-[10px] text-slate-500 hover:text-violet-400 uppercase font-bold tracking-widest">
+              <i className="fas fa-file-export mr-1" /> Export All
+            </button>
+            <button onClick={onClose} className="text-slate-500 hover:text-white"><i className="fas fa-times" /></button>
+          </div>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".json,.md,.markdown"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) importFile(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+
+        <div className="flex gap-2">
+          <input
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="Search all messages..."
+            className="flex-1 bg-slate-950/80 border border-white/10 rounded-xl px-4 py-3 text-sm focus:outline-none focus:border-violet-500 text-slate-200"
+          />
+          <button onClick={() => { onNew(); onClose(); }} className="px-5 bg-violet-600 hover:bg-violet-500 rounded-xl text-xs font-bold uppercase tracking-widest transition-all">
+            <i className="fas fa-plus mr-1" /> New
+          </button>
+        </div>
+        {error && <span className="text-[11px] text-red-400">{error}</span>}
+
+        <div className="flex-1 overflow-y-auto flex flex-col gap-2">
+          {query.trim() ? (
+            <>
+              {hits.length === 0 && <div className="text-slate-600 text-center text-xs py-8">No matching messages.</div>}
+              {hits.map((hit, i) => (
+                <button
+                  key={`${hit.conversationId}-${hit.message.timestamp}-${i}`}
+                  onClick={() => { onOpen(hit.conversationId); onClose(); }}
+                  className="text-left px-4 py-3 rounded-xl bg-slate-900/50 border border-white/5 hover:border-violet-500/40 transition-all"
+                >
+                  <div className="text-[10px] text-slate-500 uppercase tracking-widest">{hit.title} · {hit.message.role} · {new Date(hit.message.timestamp).toLocaleString()}</div>
+                  <div className="text-xs text-slate-300 mt-1">{hit.snippet}</div>
+                </button>
+              ))}
+            </>
+          ) : conversations.map(c => (
+            <div
+              key={c.id}
+              className={`flex items-center justify-between gap-3 px-4 py-3 rounded-xl bg-slate-900/50 border ${c.id === activeId ? 'border-violet-500/50' : 'border-white/5'}`}
+            >
+              {editingId === c.id ? (
+                <input
+                  autoFocus
+                  value={editTitle}
+                  onChange={e => setEditTitle(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={e => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setEditingId(null); }}
+                  className="flex-1 bg-slate-950/80 border border-white/10 rounded-lg px-3 py-1 text-sm focus:outline-none focus:border-violet-500 text-slate-200"
+                />
+              ) : (
+                <button onClick={() => { onOpen(c.id); onClose(); }} className="flex-1 min-w-0 text-left">
+                  <div className="text-sm text-slate-200 truncate">{conversationTitle(c)}</div>
+                  <div className="text-[10px] text-slate-500">
+                    {new Date(c.updatedAt).toLocaleString()} · {c.messages.length} messages · {personaNames[c.personaId] || c.personaId} · {c.backend}
+                  </div>
+                </button>
+              )}
+              <div className="flex items-center gap-3 shrink-0">
+                <button onClick={() => { setEditingId(c.id); setEditTitle(conversationTitle(c)); }} className={iconButton} title="Rename"><i className="fas fa-pen text-xs" /></button>
+                <button onClick={() => exportJSON([c], conversationTitle(c))} className={iconButton} title="Export JSON"><i className="fas fa-file-code text-xs" /></button>
+                <button onClick={() => exportMarkdown(c)} className={iconButton} title="Export Markdown"><i className="fab fa-markdown text-xs" /></button>
+                <button
+                  onClick={() => confirm(`Delete "${conversationTitle(c)}"?`) && onDelete(c.id)}
+                  className="text-slate-500 hover:text-red-400 transition-colors"
+                  title="Delete"
+                >
+                  <i className="fas fa-trash-alt text-xs" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConversationsPanel;
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { ActionPolicy, CustomAction } from '../types';
+import { BUILTIN_TOOLS, customActionTool, templateParams, toToolName, validateCustomAction, ToolDefinition } from '../services/tool-registry';
+import { defaultPolicy } from '../services/action-policy';
+
+const EMPTY_DRAFT = { label: '', description: '', urlTemplate: '' };
+
+const PolicySelect: React.FC<{
+  tool: ToolDefinition,
+  policies: Record<string, ActionPolicy>,
+  onChange: (name: string, policy: ActionPolicy) => void
+}> = ({ tool, policies, onChange }) => {
+  const name = tool.declaration.name!;
+  return (
+    <select
+      value={policies[name] || defaultPolicy(tool)}
+      onChange={e => onChange(name, e.target.value as ActionPolicy)}
+      className="bg-slate-950/80 border border-white/10 rounded-lg px-2 py-1 text-[10px] font-bold uppercase focus:outline-none text-slate-300"
+      title="What happens when the assistant uses this action"
+    >
+      <option value="auto">Auto</option>
+      <option value="ask">Ask</option>
+      <option value="deny">Deny</option>
+    </select>
+  );
+};
+
+const CustomActionsPanel: React.FC<{
+  actions: CustomAction[],
+  onChange: (actions: CustomAction[]) => void,
+  policies: Record<string, ActionPolicy>,
+  onPolicyChange: (name: string, policy: ActionPolicy) => void,
+  onClose: () => void
+}> = ({ actions, onChange, policies, onPolicyChange, onClose }) => {
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const [error, setError] = useState('');
+  const params = templateParams(draft.urlTemplate);
+
+  const addAction = () => {
+    const action: CustomAction = { id: crypto.randomUUID(), name: toToolName(draft.label), ...draft };
+    const problem = validateCustomAction(action, actions);
+    if (problem) return setError(problem);
+    onChange([...actions, action]);
+    setDraft(EMPTY_DRAFT);
+    setError('');
+  };
+
+  const inputClass = "bg-slate-950/80 border border-white/10 rounded-xl px-4 py-3 text-sm focus:outline-none focus:border-violet-500 text-slate-200";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="w-full max-w-lg max-h-[90vh] overflow-y-auto glass rounded-3xl p-8 flex flex-col gap-5" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center">
+          <h2 className="text-xs font-black uppercase tracking-[0.3em] text-slate-400">System Actions</h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-white"><i className="fas fa-times" /></button>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          {BUILTIN_TOOLS.map(t => (
+            <div key={t.declaration.name} className="flex justify-between items-center px-4 py-2 rounded-xl bg-slate-900/50 border border-white/5">
+              <span className="text-xs text-slate-300">{t.label} <span className="font-mono text-[10px] text-slate-600">{t.declaration.name}</span></span>
+              <PolicySelect tool={t} policies={policies} onChange={onPolicyChange} />
+            </div>
+          ))}
+          {actions.map(a => (
+            <div key={a.id} className="flex justify-between items-center gap-3 px-4 py-2 rounded-xl bg-slate-900/50 border border-violet-500/20">
+              <div className="min-w-0">
+                <div className="text-xs text-slate-200">{a.label} <span className="font-mono text-[10px] text-slate-500">{a.name}</span></div>
+                <div className="text-[10px] font-mono text-slate-500 truncate">{a.urlTemplate}</div>
+              </div>
+              <div className="flex items-center gap-3 shrink-0">
+                <PolicySelect tool={customActionTool(a)} policies={policies} onChange={onPolicyChange} />
+                <button onClick={() => onChange(actions.filter(x => x.id !== a.id))} className="text-slate-500 hover:text-red-400" title="Delete Action">
+                  <i className="fas fa-trash-alt text-xs" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-col gap-3 border-t border-white/5 pt-5">
+          <span className="text-[10px] text-slate-500 font-bold uppercase tracking-widest">New URL Action</span>
+          <input
+            value={draft.label}
+            onChange={e => setDraft(prev => ({ ...prev, label: e.target.value }))}
+            placeholder="Name, e.g. Search Jira"
+            className={inputClass}
+          />
+          <input
+            value={draft.description}
+            onChange={e => setDraft(prev => ({ ...prev, description: e.target.value }))}
+            placeholder="When should the assistant use it?"
+            className={inputClass}
+          />
+          <input
+            value={draft.urlTemplate}
+            onChange={e => setDraft(prev => ({ ...prev, urlTemplate: e.target.value }))}
+            placeholder="https://myanimelist.net/search/all?q={query}"
+            className={`${inputClass} font-mono`}
+          />
+          <span className="text-[10px] text-slate-600">
+            {draft.label && <>Tool name <span className="font-mono text-slate-400">{toToolName(draft.label)}</span> · </>}
+            {params.length ? <>Arguments: <span className="font-mono text-slate-400">{params.join(', ')}</span></> : 'Use {placeholders} for arguments the assistant fills in.'}
+          </span>
+          {error && <span className="text-[11px] text-red-400">{error}</span>}
+          <button
+            onClick={addAction}
+            className="self-end px-6 py-3 bg-violet-600 hover:bg-violet-500 rounded-xl text-xs font-bold uppercase tracking-widest transition-all"
+          >
+            Add Action
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CustomActionsPanel;
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { GeminiKeySettings } from '../types';
+
+const GeminiKeyPanel: React.FC<{
+  settings: GeminiKeySettings,
+  onSave: (settings: GeminiKeySettings) => void,
+  onClose: () => void
+}> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<GeminiKeySettings>(settings);
+  const [revealed, setRevealed] = useState(false);
+  const labelClass = "text-[10px] text-slate-500 font-bold uppercase tracking-widest";
+
+  const sourceButton = (source: GeminiKeySettings['source'], label: string) => (
+    <button
+      onClick={() => setDraft(prev => ({ ...prev, source }))}
+      className={`px-2 py-2 rounded-lg text-[10px] font-bold uppercase transition-all ${draft.source === source ? 'bg-violet-600 shadow-lg text-white' : 'text-slate-500 hover:text-white'}`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="w-full max-w-md glass rounded-3xl p-8 flex flex-col gap-5" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center">
+          <h2 className="text-xs font-black uppercase tracking-[0.3em] text-slate-400">Gemini API Key</h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-white"><i className="fas fa-times" /></button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 bg-slate-900/50 p-1 rounded-xl border border-white/5">
+          {sourceButton('proxy', 'Server Proxy')}
+          {sourceButton('own', 'My Own Key')}
+        </div>
+
+        {draft.source === 'proxy' ? (
+          <p className="text-xs text-slate-400 leading-relaxed">
+            The dev or preview server holds <code className="text-violet-300">GEMINI_API_KEY</code> from <code className="text-violet-300">.env.local</code>.
+            Text requests go through it, and voice sessions get a single-use token. The key never reaches this page.
+          </p>
+        ) : (
+          <label className="flex flex-col gap-2">
+            <span className={labelClass}>API Key</span>
+            <div className="flex gap-2">
+              <input
+                type={revealed ? 'text' : 'password'}
+                value={draft.apiKey}
+                onChange={e => setDraft(prev => ({ ...prev, apiKey: e.target.value }))}
+                placeholder="AIza..."
+                autoComplete="off"
+                className="flex-1 bg-slate-950/80 border border-white/10 rounded-xl px-4 py-3 text-sm focus:outline-none focus:border-violet-500 text-slate-200"
+              />
+              <button onClick={() => setRevealed(!revealed)} className="px-3 text-slate-500 hover:text-white" title={revealed ? 'Hide' : 'Show'}>
+                <i className={`fas ${revealed ? 'fa-eye-slash' : 'fa-eye'} text-xs`} />
+              </button>
+            </div>
+            <span className="text-[10px] text-slate-600">
+              Stored in this browser's local storage only and sent straight to Google. Get one from Google AI Studio.
+            </span>
+          </label>
+        )}
+
+        <div className="flex justify-between gap-3">
+          <button
+            onClick={() => setDraft(prev => ({ ...prev, apiKey: '' }))}
+            disabled={!draft.apiKey}
+            className="text-[10px] text-slate-500 hover:text-red-400 disabled:opacity-30 transition-colors uppercase font-bold tracking-widest"
+          >
+            Forget Key
+          </button>
+          <button
+            onClick={() => { onSave(draft); onClose(); }}
+            className="px-6 py-3 bg-violet-600 hover:bg-violet-500 rounded-xl text-xs font-bold uppercase tracking-widest transition-all"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GeminiKeyPanel;
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { MemoryFact, MemorySettings } from '../types';
+import { addMemory } from '../services/memory';
+
+const MemoriesPanel: React.FC<{
+  memories: MemoryFact[],
+  onChange: (memories: MemoryFact[]) => void,
+  settings: MemorySettings,
+  onSettingsChange: (settings: MemorySettings) => void,
+  onClose: () => void
+}> = ({ memories, onChange, settings, onSettingsChange, onClose }) => {
+  const [draft, setDraft] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [query, setQuery] = useState('');
+
+  const needle = query.trim().toLowerCase();
+  const visible = memories.filter(m => !needle || m.text.toLowerCase().includes(needle)).slice().reverse();
+
+  const addFact = () => {
+    if (!draft.trim()) return;
+    onChange(addMemory(memories, draft, 'user'));
+    setDraft('');
+  };
+
+  const saveEdit = () => {
+    const text = editText.trim();
+    if (editingId && text) onChange(memories.map(m => m.id === editingId ? { ...m, text, updatedAt: Date.now() } : m));
+    setEditingId(null);
+  };
+
+  const forgetAll = () => {
+    if (confirm("Forget everything the assistant remembers about you?")) onChange([]);
+  };
+
+  const inputClass = "bg-slate-950/80 border border-white/10 rounded-xl px-4 py-3 text-sm focus:outline-none focus:border-violet-500 text-slate-200";
+  const labelClass = "text-[10px] text-slate-500 font-bold uppercase tracking-widest";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="w-full max-w-2xl max-h-[90vh] glass rounded-3xl p-8 flex flex-col gap-5" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center">
+          <h2 className="text-xs font-black uppercase tracking-[0.3em] text-slate-400">Memories</h2>
+          <div className="flex items-center gap-4">
+            <button onClick={forgetAll} disabled={memories.length === 0} className="text-[10px] text-slate-500 hover:text-red-400 disabled:opacity-30 transition-colors uppercase font-bold tracking-widest">
+              <i className="fas fa-trash-alt mr-1" /> Forget All
+            </button>
+            <button onClick={onClose} className="text-slate-500 hover:text-white"><i className="fas fa-times" /></button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <label className="flex items-center gap-3 text-xs text-slate-300">
+            <input type="checkbox" checked={settings.enabled} onChange={e => onSettingsChange({ ...settings, enabled: e.target.checked })} className="accent-violet-500" />
+            Let the assistant save and use memories
+          </label>
+          <label className="flex items-center gap-2">
+            <span className={labelClass}>Embedding Model</span>
+            <input
+              value={settings.embeddingModel}
+              onChange={e => onSettingsChange({ ...settings, embeddingModel: e.target.value.trim() })}
+              placeholder="nomic-embed-text"
+              title="Ollama model for searching old conversations by meaning; leave empty to search by keyword"
+              className="bg-slate-950/80 border border-white/10 rounded-xl px-3 py-2 text-xs focus:outline-none focus:border-violet-500 text-slate-200 w-40"
+            />
+          </label>
+        </div>
+
+        <div className="flex gap-2">
+          <input
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && addFact()}
+            placeholder="Add a fact, e.g. My favourite anime is Frieren"
+            className={`${inputClass} flex-1`}
+          />
+          <button onClick={addFact} disabled={!draft.trim()} className="px-5 bg-violet-600 hover:bg-violet-500 disabled:bg-slate-800 disabled:text-slate-600 rounded-xl text-xs font-bold uppercase tracking-widest transition-all">
+            Add
+          </button>
+        </div>
+
+        {memories.length > 5 && <input value={query} onChange={e => setQuery(e.target.value)} placeholder="Filter..." className={inputClass} />}
+
+        <div className="flex-1 overflow-y-auto flex flex-col gap-2">
+          {visible.length === 0 && <div className="text-xs text-slate-600 text-center py-8">Nothing remembered yet.</div>}
+          {visible.map(m => (
+            <div key={m.id} className="flex items-center justify-between gap-3 px-4 py-2 rounded-xl bg-slate-900/50 border border-white/5">
+              {editingId === m.id ? (
+                <input
+                  autoFocus
+                  value={editText}
+                  onChange={e => setEditText(e.target.value)}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter') saveEdit();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  onBlur={saveEdit}
+                  className="flex-1 bg-transparent text-sm text-slate-200 focus:outline-none"
+                />
+              ) : (
+                <div className="min-w-0">
+                  <div className="text-sm text-slate-300">{m.text}</div>
+                  <div className="text-[9px] text-slate-500 font-mono">
+                    {new Date(m.updatedAt).toLocaleString()} · {m.source === 'assistant' ? 'saved by the assistant' : 'added by you'}
+                  </div>
+                </div>
+              )}
+              <div className="flex items-center gap-3 shrink-0">
+                <button onClick={() => { setEditingId(m.id); setEditText(m.text); }} className="text-slate-500 hover:text-violet-400" title="Edit">
+                  <i className="fas fa-pen text-xs" />
+                </button>
+                <button onClick={() => onChange(memories.filter(f => f.id !== m.id))} className="text-slate-500 hover:text-red-400" title="Forget">
+                  <i className="fas fa-times text-xs" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MemoriesPanel;
@@ -0,0 +1,100 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Persona } from '../types';
+import { BUILTIN_PERSONAS } from '../services/personas';
+import { SILENT_FRAME } from '../services/lip-sync';
+import { parseOverlayOptions, subscribeOverlay, subtitleTail, OverlayOptions, OverlayState } from '../services/overlay-sync';
+import CharacterDisplay from './CharacterDisplay';
+
+const POSITION_CLASSES: Record<OverlayOptions['position'], string> = {
+  'top-left': 'top-0 left-0 items-start',
+  'top-center': 'top-0 left-1/2 -translate-x-1/2 items-center',
+  'top-right': 'top-0 right-0 items-end',
+  'center': 'top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 items-center',
+  'bottom-left': 'bottom-0 left-0 items-start',
+  'bottom-center': 'bottom-0 left-1/2 -translate-x-1/2 items-center',
+  'bottom-right': 'bottom-0 right-0 items-end'
+};
+
+const IDLE_STATE: OverlayState = {
+  voiceState: {
+    isActive: false,
+    isThinking: false,
+    isSpeaking: false,
+    userTranscript: '',
+    assistantTranscript: '',
+    listenState: 'idle',
+    connection: 'closed',
+    connectionDetail: ''
+  },
+  isLocal: false,
+  backendLabel: '',
+  subtitle: ''
+};
+
+// Browser source for OBS: the character and subtitles on a transparent page, mirrored from the main window
+const Overlay: React.FC = () => {
+  const options = useMemo(() => parseOverlayOptions(window.location.search), []);
+  const [persona, setPersona] = useState<Persona>(BUILTIN_PERSONAS[0]);
+  const [state, setState] = useState<OverlayState>(IDLE_STATE);
+  const [subtitle, setSubtitle] = useState('');
+  const frame = useRef(SILENT_FRAME);
+  const getFrame = useCallback(() => frame.current, []);
+
+  useEffect(() => {
+    const { body } = document;
+    const previous = { className: body.className, background: body.style.background };
+    body.className = '';
+    body.style.background = 'transparent';
+    return () => {
+      body.className = previous.className;
+      body.style.background = previous.background;
+    };
+  }, []);
+
+  useEffect(() => subscribeOverlay({
+    onPersona: setPersona,
+    onState: setState,
+    onFrame: f => { frame.current = f; }
+  }), []);
+
+  // The last line lingers a moment after the assistant finishes
+  useEffect(() => {
+    if (state.subtitle) {
+      setSubtitle(state.subtitle);
+      return;
+    }
+    const timer = setTimeout(() => setSubtitle(''), options.holdMs);
+    return () => clearTimeout(timer);
+  }, [state.subtitle, options.holdMs]);
+
+  const subtitleStyle: React.CSSProperties = {
+    fontSize: options.fontSize,
+    color: options.color,
+    ...(options.subtitles === 'outline' && { textShadow: '0 0 4px #000, 0 0 4px #000, 2px 2px 2px #000, -2px -2px 2px #000' })
+  };
+
+  return (
+    <div className={`fixed flex flex-col gap-4 p-6 ${POSITION_CLASSES[options.position]}`} style={{ width: options.size + 48 }}>
+      <div style={{ width: options.size, height: options.size * 1.25 }}>
+        <CharacterDisplay
+          persona={persona}
+          voiceState={state.voiceState}
+          isLocal={state.isLocal}
+          backendLabel={state.backendLabel}
+          getFrame={getFrame}
+          bare
+        />
+      </div>
+      {options.subtitles !== 'none' && subtitle && (
+        <p
+          className={`font-semibold leading-snug text-center self-stretch ${options.subtitles === 'box' ? 'px-5 py-3 rounded-2xl bg-slate-950/70' : ''}`}
+          style={subtitleStyle}
+        >
+          {subtitleTail(subtitle)}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default Overlay;
@@ -0,0 +1,262 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Persona, PersonaSprites } from '../types';
+import { blankPersona, parsePersonaPack, readAvatarFile, toPersonaPack, BUILTIN_PERSONAS, GEMINI_VOICES } from '../services/personas';
+import { downloadFile, slugify } from '../services/download';
+import { LANGUAGES } from '../services/language';
+
+const SPRITE_LAYERS: { key: keyof PersonaSprites, label: string }[] = [
+  { key: 'idle', label: 'Idle' },
+  { key: 'talking', label: 'Talking (mouth open)' },
+  { key: 'blinking', label: 'Blinking' },
+  { key: 'thinking', label: 'Thinking' }
+];
+
+const ImageField: React.FC<{
+  value: string,
+  placeholder: string,
+  onChange: (url: string) => void,
+  onError: (message: string) => void,
+  className: string
+}> = ({ value, placeholder, onChange, onError, className }) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const isUpload = value.startsWith('data:');
+  return (
+    <div className="flex gap-2">
+      <input
+        value={isUpload ? '' : value}
+        onChange={e => onChange(e.target.value)}
+        placeholder={isUpload ? 'Uploaded image' : placeholder}
+        className={`${className} flex-1 min-w-0`}
+      />
+      <button onClick={() => fileInput.current?.click()} className="px-4 rounded-xl bg-slate-800 hover:bg-slate-700 text-xs" title="Upload Image">
+        <i className="fas fa-upload" />
+      </button>
+      <input
+        ref={fileInput}
+        type="file"
+        accept="image/*"
+        className="hidden"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          if (file) readAvatarFile(file).then(onChange).catch(err => onError(err instanceof Error ? err.message : String(err)));
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+};
+
+const PersonaEditor: React.FC<{
+  personas: Persona[],
+  activeId: string,
+  onChange: (personas: Persona[]) => void,
+  onSelect: (id: string) => void,
+  // Set when the last change couldn't be written to storage
+  saveError?: string,
+  onClose: () => void
+}> = ({ personas, activeId, onChange, onSelect, saveError, onClose }) => {
+  const [editingId, setEditingId] = useState(activeId);
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [error, setError] = useState('');
+  const packInput = useRef<HTMLInputElement>(null);
+  const persona = personas.find(p => p.id === editingId) || personas[0];
+
+  // Chrome fills the voice list asynchronously
+  useEffect(() => {
+    if (!window.speechSynthesis) return;
+    const load = () => setVoices(window.speechSynthesis.getVoices());
+    load();
+    window.speechSynthesis.addEventListener('voiceschanged', load);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', load);
+  }, []);
+
+  const update = (patch: Partial<Persona>) => {
+    onChange(personas.map(p => p.id === persona.id ? { ...p, ...patch } : p));
+  };
+
+  const addPersona = (base: Persona) => {
+    onChange([...personas, base]);
+    setEditingId(base.id);
+  };
+
+  const removePersona = () => {
+    if (!confirm(`Delete ${persona.name}?`)) return;
+    const remaining = personas.filter(p => p.id !== persona.id);
+    onChange(remaining);
+    setEditingId(remaining[0].id);
+    if (persona.id === activeId) onSelect(remaining[0].id);
+  };
+
+  const resetBuiltIn = () => {
+    const original = BUILTIN_PERSONAS.find(p => p.id === persona.id);
+    if (original) update({ ...original, sprites: undefined });
+  };
+
+  const importPack = async (file: File) => {
+    try {
+      const imported = parsePersonaPack(await file.text(), personas);
+      onChange([...personas, ...imported]);
+      setEditingId(imported[0].id);
+      setError('');
+    } catch (e) {
+      setError(`Import failed: ${e instanceof Error ? e.message : e}`);
+    }
+  };
+
+  const inputClass = "bg-slate-950/80 border border-white/10 rounded-xl px-4 py-3 text-sm focus:outline-none focus:border-violet-500 text-slate-200";
+  const labelClass = "text-[10px] text-slate-500 font-bold uppercase tracking-widest";
+  const languageVoices = voices.filter(v => v.lang.split('-')[0] === persona.language.split('-')[0]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="w-full max-w-3xl max-h-[90vh] glass rounded-3xl p-8 flex flex-col gap-5" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center">
+          <h2 className="text-xs font-black uppercase tracking-[0.3em] text-slate-400">Personas</h2>
+          <div className="flex items-center gap-4">
+            <button onClick={() => packInput.current?.click()} className="text-[10px] text-slate-500 hover:text-violet-400 uppercase font-bold tracking-widest">
+              <i className="fas fa-file-import mr-1" /> Import Pack
+            </button>
+            <button
+              onClick={() => downloadFile('ani-mate-personas.json', toPersonaPack(personas), 'application/json')}
+              className="text-[10px] text-slate-500 hover:text-violet-400 uppercase font-bold tracking-widest"
+            >
+              <i className="fas fa-file-export mr-1" /> Export All
+            </button>
+            <button onClick={onClose} className="text-slate-500 hover:text-white"><i className="fas fa-times" /></button>
+          </div>
+          <input
+            ref={packInput}
+            type="file"
+            accept=".json"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) importPack(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+        {error && <span className="text-[11px] text-red-400">{error}</span>}
+        {saveError && <span className="text-[11px] text-red-400">{saveError}</span>}
+
+        <div className="flex-1 min-h-0 flex flex-col md:flex-row gap-6">
+          <div className="md:w-48 flex md:flex-col gap-2 overflow-auto shrink-0">
+            {personas.map(p => (
+              <button
+                key={p.id}
+                onClick={() => setEditingId(p.id)}
+                className={`flex items-center gap-3 px-3 py-2 rounded-xl border text-left transition-all ${p.id === persona.id ? 'border-violet-500/50 bg-violet-600/10' : 'border-white/5 bg-slate-900/50 hover:border-white/20'}`}
+              >
+                <img src={p.avatarUrl} alt="" className="w-8 h-8 rounded-full object-cover shrink-0" />
+                <span className="text-xs text-slate-200 truncate">{p.name}</span>
+                {p.id === activeId && <i className="fas fa-check text-[10px] text-violet-400 ml-auto" />}
+              </button>
+            ))}
+            <button onClick={() => addPersona(blankPersona())} className="px-3 py-2 rounded-xl border border-dashed border-white/10 text-xs text-slate-500 hover:text-white">
+              <i className="fas fa-plus mr-1" /> New
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto flex flex-col gap-4 pr-1">
+            <div className="flex gap-4 items-start">
+              <img src={persona.avatarUrl} alt="" className="w-20 h-20 rounded-2xl object-cover shrink-0 border border-white/10" />
+              <div className="flex-1 flex flex-col gap-2">
+                <input value={persona.name} onChange={e => update({ name: e.target.value })} placeholder="Name" className={inputClass} />
+                <ImageField
+                  value={persona.avatarUrl}
+                  placeholder="Avatar image URL"
+                  onChange={avatarUrl => update({ avatarUrl })}
+                  onError={setError}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <label className="flex flex-col gap-2">
+              <span className={labelClass}>System Prompt</span>
+              <textarea value={persona.systemPrompt} onChange={e => update({ systemPrompt: e.target.value })} rows={4} className={`${inputClass} resize-y`} />
+            </label>
+            <label className="flex flex-col gap-2">
+              <span className={labelClass}>Greeting</span>
+              <textarea value={persona.greeting} onChange={e => update({ greeting: e.target.value })} rows={2} className={`${inputClass} resize-y`} />
+            </label>
+
+            <div className="grid grid-cols-2 gap-4">
+              <label className="flex flex-col gap-2">
+                <span className={labelClass}>Language</span>
+                <input list="persona-languages" value={persona.language} onChange={e => update({ language: e.target.value })} className={inputClass} />
+                <datalist id="persona-languages">
+                  {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+                </datalist>
+              </label>
+              <label className="flex flex-col gap-2">
+                <span className={labelClass}>Gemini Voice</span>
+                <select value={persona.geminiVoice} onChange={e => update({ geminiVoice: e.target.value })} className={inputClass}>
+                  {GEMINI_VOICES.map(v => <option key={v} value={v}>{v}</option>)}
+                </select>
+              </label>
+              <label className="flex flex-col gap-2 col-span-2">
+                <span className={labelClass}>Local Voice (speechSynthesis)</span>
+                <select value={persona.localVoice} onChange={e => update({ localVoice: e.target.value })} className={inputClass}>
+                  <option value="">Best match for {persona.language}</option>
+                  {(languageVoices.length ? languageVoices : voices).map(v => <option key={v.name} value={v.name}>{v.name} ({v.lang})</option>)}
+                </select>
+              </label>
+              <label className="flex flex-col gap-2">
+                <span className={labelClass}>Rate · {persona.rate.toFixed(1)}</span>
+                <input type="range" min={0.5} max={2} step={0.1} value={persona.rate} onChange={e => update({ rate: Number(e.target.value) })} className="accent-violet-500" />
+              </label>
+              <label className="flex flex-col gap-2">
+                <span className={labelClass}>Pitch · {persona.pitch.toFixed(1)}</span>
+                <input type="range" min={0} max={2} step={0.1} value={persona.pitch} onChange={e => update({ pitch: Number(e.target.value) })} className="accent-violet-500" />
+              </label>
+            </div>
+
+            <details className="flex flex-col gap-3">
+              <summary className={`${labelClass} cursor-pointer`}>Sprite Layers (optional)</summary>
+              <div className="flex flex-col gap-3 mt-3">
+                {SPRITE_LAYERS.map(({ key, label }) => (
+                  <label key={key} className="flex flex-col gap-2">
+                    <span className="text-[10px] text-slate-600">{label}</span>
+                    <ImageField
+                      value={persona.sprites?.[key] || ''}
+                      placeholder="Falls back to the avatar"
+                      onChange={url => update({ sprites: { ...persona.sprites, [key]: url || undefined } })}
+                      onError={setError}
+                      className={inputClass}
+                    />
+                  </label>
+                ))}
+              </div>
+            </details>
+
+            <div className="flex justify-between items-center gap-3 pt-2">
+              <div className="flex gap-4">
+                {persona.builtIn ? (
+                  <button onClick={resetBuiltIn} className="text-[10px] text-slate-500 hover:text-red-400 uppercase font-bold tracking-widest">Reset</button>
+                ) : (
+                  <button onClick={removePersona} disabled={personas.length < 2} className="text-[10px] text-slate-500 hover:text-red-400 disabled:opacity-30 uppercase font-bold tracking-widest">Delete</button>
+                )}
+                <button onClick={() => addPersona({ ...persona, id: crypto.randomUUID(), name: `${persona.name} Copy`, builtIn: false })} className="text-[10px] text-slate-500 hover:text-violet-400 uppercase font-bold tracking-widest">Duplicate</button>
+                <button
+                  onClick={() => downloadFile(`${slugify(persona.name)}.persona.json`, toPersonaPack([persona]), 'application/json')}
+                  className="text-[10px] text-slate-500 hover:text-violet-400 uppercase font-bold tracking-widest"
+                >
+                  Export
+                </button>
+              </div>
+              <button
+                onClick={() => { onSelect(persona.id); onClose(); }}
+                className="px-6 py-3 bg-violet-600 hover:bg-violet-500 rounded-xl text-xs font-bold uppercase tracking-widest transition-all"
+              >
+                Use {persona.name}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PersonaEditor;
@@ -0,0 +1,71 @@
+import React, { useEffect, useState } from 'react';
+import { Reminder } from '../types';
+import { formatDue } from '../services/reminders';
+
+// "1:05:09" or "4:32" until the item is due
+function countdown(ms: number): string {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor(total / 60) % 60;
+  const s = String(total % 60).padStart(2, '0');
+  return h ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+const RemindersPanel: React.FC<{
+  reminders: Reminder[],
+  onCancel: (id: string) => void,
+  onClose: () => void
+}> = ({ reminders, onCancel, onClose }) => {
+  const [now, setNow] = useState(Date.now());
+  const [permission, setPermission] = useState(() => 'Notification' in window ? Notification.permission : 'denied');
+  const sorted = [...reminders].sort((a, b) => a.dueAt - b.dueAt);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const enableNotifications = () => {
+    Notification.requestPermission()
+      .then(setPermission)
+      .catch(e => console.error("Failed to request notification permission", e));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="w-full max-w-md max-h-[90vh] glass rounded-3xl p-8 flex flex-col gap-5" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center">
+          <h2 className="text-xs font-black uppercase tracking-[0.3em] text-slate-400">Timers & Reminders</h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-white"><i className="fas fa-times" /></button>
+        </div>
+
+        {permission === 'default' && (
+          <button onClick={enableNotifications} className="px-4 py-3 rounded-xl border border-violet-500/40 bg-violet-600/10 text-violet-300 text-[10px] font-bold uppercase tracking-widest hover:bg-violet-600/20 transition-all">
+            <i className="fas fa-bell mr-1" /> Enable desktop notifications
+          </button>
+        )}
+        {permission === 'denied' && (
+          <p className="text-[10px] text-slate-600">Desktop notifications are blocked; alerts will only appear and be spoken here.</p>
+        )}
+
+        <div className="flex-1 overflow-y-auto flex flex-col gap-2">
+          {sorted.length === 0 && <div className="text-xs text-slate-600 text-center py-8">Nothing pending. Ask the assistant to set a timer or a reminder.</div>}
+          {sorted.map(r => (
+            <div key={r.id} className="flex items-center justify-between gap-3 px-4 py-3 rounded-xl bg-slate-900/50 border border-white/5">
+              <i className={`fas ${r.kind === 'timer' ? 'fa-hourglass-half' : 'fa-bell'} text-violet-400 text-xs`} />
+              <div className="min-w-0 flex-1">
+                <div className="text-sm text-slate-300 truncate">{r.label}</div>
+                <div className="text-[9px] text-slate-500 font-mono">{formatDue(r, now)} · in {countdown(r.dueAt - now)}</div>
+              </div>
+              <button onClick={() => onCancel(r.id)} className="text-slate-500 hover:text-red-400" title="Cancel">
+                <i className="fas fa-times text-xs" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RemindersPanel;
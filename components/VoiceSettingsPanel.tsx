@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { Script, VoiceSettings } from '../types';
+import { DEFAULT_VOICE_SETTINGS } from '../services/hands-free';
+import { LANGUAGES } from '../services/language';
+
+const SCRIPTS: { value: Script, label: string }[] = [
+  { value: 'original', label: 'As written' },
+  { value: 'latin', label: 'Romanized (Devanagari → Latin)' },
+  { value: 'devanagari', label: 'Devanagari (Latin → Devanagari)' }
+];
+
+const Toggle: React.FC<{
+  checked: boolean,
+  onChange: (checked: boolean) => void,
+  label: string,
+  hint: string
+}> = ({ checked, onChange, label, hint }) => (
+  <button onClick={() => onChange(!checked)} className="flex items-center justify-between gap-4 text-left">
+    <span className="flex flex-col gap-1">
+      <span className="text-xs text-slate-200">{label}</span>
+      <span className="text-[10px] text-slate-600">{hint}</span>
+    </span>
+    <span className={`w-10 h-6 shrink-0 rounded-full p-1 transition-all ${checked ? 'bg-violet-600' : 'bg-slate-800'}`}>
+      <span className={`block w-4 h-4 rounded-full bg-white transition-transform ${checked ? 'translate-x-4' : ''}`} />
+    </span>
+  </button>
+);
+
+const VoiceSettingsPanel: React.FC<{
+  settings: VoiceSettings,
+  wakePhrase: string,
+  personaLanguage: string,
+  onSave: (settings: VoiceSettings) => void,
+  onClose: () => void
+}> = ({ settings, wakePhrase, personaLanguage, onSave, onClose }) => {
+  const [draft, setDraft] = useState<VoiceSettings>(settings);
+  const update = (patch: Partial<VoiceSettings>) => setDraft(prev => ({ ...prev, ...patch }));
+  const labelClass = "text-[10px] text-slate-500 font-bold uppercase tracking-widest";
+  const inputClass = "bg-slate-950/80 border border-white/10 rounded-xl px-4 py-3 text-sm focus:outline-none focus:border-violet-500 text-slate-200";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="w-full max-w-md glass rounded-3xl p-8 flex flex-col gap-5" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center">
+          <h2 className="text-xs font-black uppercase tracking-[0.3em] text-slate-400">Voice & Language</h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-white"><i className="fas fa-times" /></button>
+        </div>
+
+        <Toggle
+          checked={draft.handsFree}
+          onChange={handsFree => update({ handsFree })}
+          label="Hands-free"
+          hint="Keep listening after each reply until the mic is stopped."
+        />
+        <Toggle
+          checked={draft.wakeWord}
+          onChange={wakeWord => update({ wakeWord })}
+          label={`Wake phrase "${wakePhrase}"`}
+          hint="In hands-free mode, only respond to requests that start with the wake phrase."
+        />
+        <Toggle
+          checked={draft.bargeIn}
+          onChange={bargeIn => update({ bargeIn })}
+          label="Interrupt by talking"
+          hint="Talking over a local reply cuts it off. Use headphones, or the assistant's own voice will interrupt it."
+        />
+
+        <label className="flex flex-col gap-2">
+          <span className={labelClass}>Speech Threshold · {draft.vadThreshold.toFixed(3)}</span>
+          <input type="range" min={0.005} max={0.1} step={0.005} value={draft.vadThreshold} onChange={e => update({ vadThreshold: Number(e.target.value) })} className="accent-violet-500" />
+          <span className="text-[10px] text-slate-600">Raise it if background noise keeps triggering the mic.</span>
+        </label>
+        <label className="flex flex-col gap-2">
+          <span className={labelClass}>End of Speech After · {draft.vadHangoverMs} ms</span>
+          <input type="range" min={300} max={2500} step={100} value={draft.vadHangoverMs} onChange={e => update({ vadHangoverMs: Number(e.target.value) })} className="accent-violet-500" />
+          <span className="text-[10px] text-slate-600">How long a pause has to last before the request is sent.</span>
+        </label>
+
+        <label className="flex flex-col gap-2">
+          <span className={labelClass}>Language</span>
+          <select value={draft.language} onChange={e => update({ language: e.target.value })} className={inputClass}>
+            <option value="">Persona default ({personaLanguage})</option>
+            {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+          </select>
+          <span className="text-[10px] text-slate-600">Used for speech recognition, the local voice and the language replies are written in.</span>
+        </label>
+        <label className="flex flex-col gap-2">
+          <span className={labelClass}>Script</span>
+          <select value={draft.script} onChange={e => update({ script: e.target.value as Script })} className={inputClass}>
+            {SCRIPTS.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+          </select>
+          <span className="text-[10px] text-slate-600">Hindi is transliterated before it is shown or spoken, and the model is asked to write in this script.</span>
+        </label>
+
+        <div className="flex justify-between gap-3">
+          <button
+            onClick={() => setDraft(DEFAULT_VOICE_SETTINGS)}
+            className="text-[10px] text-slate-500 hover:text-red-400 transition-colors uppercase font-bold tracking-widest"
+          >
+            Reset Defaults
+          </button>
+          <button
+            onClick={() => { onSave(draft); onClose(); }}
+            className="px-6 py-3 bg-violet-600 hover:bg-violet-500 rounded-xl text-xs font-bold uppercase tracking-widest transition-all"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VoiceSettingsPanel;
@@ -2,6 +2,7 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import Overlay from './components/Overlay';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -9,8 +10,11 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
+// /overlay is the OBS browser source; everything else is the dashboard
+const isOverlay = /\/overlay\/?$/.test(window.location.pathname);
+
 root.render(
   <React.StrictMode>
-    <App />
+    {isOverlay ? <Overlay /> : <App />}
   </React.StrictMode>
 );
@@ -0,0 +1,112 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Plugin } from 'vite';
+import { GoogleGenAI } from '@google/genai';
+
+// Must match PROXY_PATH in services/gemini-client.ts
+const PROXY_PATH = '/api/gemini';
+const UPSTREAM = 'https://generativelanguage.googleapis.com';
+// Only text generation is relayed, so the key can't be used for anything else through here
+const ALLOWED_PATH = /^\/v1(alpha|beta)?\/models\/[\w.-]+:(generateContent|streamGenerateContent)$/;
+// Live tokens: one session each, which has to start within a minute
+const TOKEN_TTL_MS = 30 * 60 * 1000;
+const TOKEN_START_MS = 60 * 1000;
+
+function send(res: ServerResponse, status: number, message: string) {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify({ error: { message } }));
+}
+
+function readBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+// The dev server listens on every interface, but the key is only spent for this machine
+function isLoopback(req: IncomingMessage): boolean {
+  const address = req.socket.remoteAddress || '';
+  return address === '::1' || /^(::ffff:)?127\./.test(address);
+}
+
+// No CORS headers are sent, but a page elsewhere could still fire blind requests at the dev server.
+// Browsers always send Origin on POST, so a request without one didn't come from the app.
+function isSameOrigin(req: IncomingMessage): boolean {
+  const origin = req.headers.origin;
+  if (!origin) return false;
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+}
+
+async function createLiveToken(ai: GoogleGenAI, res: ServerResponse) {
+  const now = Date.now();
+  const token = await ai.authTokens.create({
+    config: {
+      uses: 1,
+      expireTime: new Date(now + TOKEN_TTL_MS).toISOString(),
+      newSessionExpireTime: new Date(now + TOKEN_START_MS).toISOString(),
+      httpOptions: { apiVersion: 'v1alpha' }
+    }
+  });
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify({ token: token.name }));
+}
+
+// Relays a text request with the server's key swapped in, streaming the answer back as it arrives
+async function relay(apiKey: string, path: string, req: IncomingMessage, res: ServerResponse) {
+  const upstream = await fetch(`${UPSTREAM}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+    body: await readBody(req)
+  });
+  res.statusCode = upstream.status;
+  res.setHeader('Content-Type', upstream.headers.get('content-type') || 'application/json');
+  if (!upstream.body) return res.end();
+  const reader = upstream.body.getReader();
+  req.on('close', () => reader.cancel().catch(() => {}));
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    res.write(value);
+  }
+  res.end();
+}
+
+// Keeps GEMINI_API_KEY on the dev and preview servers: the browser gets proxied text requests
+// at /api/gemini/... and single-use Live tokens from /api/gemini/token
+export function geminiProxy(apiKey: string | undefined): Plugin {
+  const ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
+
+  const handle = async (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+    if (!req.url?.startsWith(`${PROXY_PATH}/`)) return next();
+    if (!isLoopback(req)) return send(res, 403, 'The Gemini proxy only serves this machine. Enter your own key in the key settings.');
+    if (req.method !== 'POST' || !isSameOrigin(req)) return send(res, 403, 'Forbidden');
+    if (!apiKey || !ai) return send(res, 503, 'GEMINI_API_KEY is not set on the server. Add it to .env.local or enter your own key in the app.');
+    const path = req.url.slice(PROXY_PATH.length);
+    try {
+      if (path === '/token') return await createLiveToken(ai, res);
+      if (!ALLOWED_PATH.test(path.split('?')[0])) return send(res, 404, 'Not found');
+      await relay(apiKey, path, req, res);
+    } catch (e) {
+      console.error("Gemini proxy request failed", e);
+      if (res.headersSent) res.end();
+      else send(res, 502, 'Could not reach Gemini.');
+    }
+  };
+
+  return {
+    name: 'gemini-proxy',
+    configureServer: server => {
+      server.middlewares.use(handle);
+    },
+    configurePreviewServer: server => {
+      server.middlewares.use(handle);
+    }
+  };
+}
@@ -0,0 +1,58 @@
+import { ActionPolicy, ActionRecord, ActionStatus } from '../types';
+import type { ToolDefinition } from './tool-registry';
+
+export const ACTION_LOG_LIMIT = 200;
+
+export const STATUS_LABELS: Record<ActionStatus, string> = {
+  pending: 'Awaiting approval',
+  opened: 'Opened',
+  blocked: 'Popup blocked',
+  done: 'Done',
+  denied: 'Denied',
+  rejected: 'Invalid',
+  rate_limited: 'Rate limited',
+  expired: 'Not confirmed'
+};
+
+// Arbitrary URLs and user-defined actions need a click by default, the fixed searches run straight away
+export function defaultPolicy(tool: ToolDefinition): ActionPolicy {
+  return tool.custom || tool.declaration.name === 'openWebsite' ? 'ask' : 'auto';
+}
+
+export interface RateLimiter {
+  tryAcquire: (now?: number) => boolean;
+}
+
+// Sliding window limit so a model stuck in a tool loop cannot open tabs endlessly
+export function createRateLimiter(limit: number, windowMs: number): RateLimiter {
+  const hits: number[] = [];
+  return {
+    tryAcquire(now = Date.now()) {
+      while (hits.length && now - hits[0] >= windowMs) hits.shift();
+      if (hits.length >= limit) return false;
+      hits.push(now);
+      return true;
+    }
+  };
+}
+
+// Opens the action's URL; must run inside a click handler to reliably get past popup blockers
+export function openActionUrl(record: ActionRecord): ActionRecord {
+  if (!record.url) return { ...record, status: 'done' };
+  const win = window.open(record.url, '_blank');
+  return { ...record, status: win ? 'opened' : 'blocked' };
+}
+
+// What the model is told about the action, so it never claims something opened when it did not
+export function describeOutcome(record: ActionRecord): string {
+  switch (record.status) {
+    case 'opened': return `Opened ${record.url} in a new tab.`;
+    case 'done': return `Done: ${record.summary}.`;
+    case 'blocked': return `The browser blocked the popup for ${record.url}. The user was shown an Open button to open it manually.`;
+    case 'denied': return record.detail || 'The user denied this action.';
+    case 'rejected': return `Error: ${record.detail}.`;
+    case 'rate_limited': return 'Too many actions in a short time, so this one was skipped. Do not retry right away.';
+    case 'expired': return 'The user did not confirm the action, so nothing was opened.';
+    default: return 'The action is waiting for the user to confirm it.';
+  }
+}
@@ -0,0 +1,115 @@
+import { createVad, INPUT_SAMPLE_RATE, INITIAL_RESAMPLE_STATE, resampleChunk, ResampleState, VadOptions } from './audio-utils';
+
+export interface MicCapture {
+  // Rate the device actually runs at, before resampling
+  deviceSampleRate: number;
+  stop: () => Promise<void>;
+}
+
+export interface MicCaptureOptions {
+  // Length of each frame handed to onFrame
+  frameMs?: number;
+  targetRate?: number;
+}
+
+// Mono with the browser's echo cancellation, so the assistant's voice stays out of the input
+export const MIC_CONSTRAINTS: MediaTrackConstraints = { channelCount: 1, echoCancellation: true, noiseSuppression: true };
+
+const PROCESSOR_NAME = 'ani-mate-mic-capture';
+
+// Runs on the audio thread: collects render quanta into fixed-size frames and posts them out.
+// Kept as a string so it can be loaded from a Blob URL without a separate build entry.
+const PROCESSOR_SOURCE = `
+class MicCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.frame = new Float32Array(options.processorOptions.frameSize);
+    this.filled = 0;
+  }
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+    let offset = 0;
+    while (offset < channel.length) {
+      const count = Math.min(channel.length - offset, this.frame.length - this.filled);
+      this.frame.set(channel.subarray(offset, offset + count), this.filled);
+      this.filled += count;
+      offset += count;
+      if (this.filled === this.frame.length) {
+        this.port.postMessage(this.frame.slice());
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('${PROCESSOR_NAME}', MicCaptureProcessor);
+`;
+
+// Streams the mic as mono float frames at targetRate (16 kHz by default), whatever rate the
+// device really runs at. Browsers may ignore a requested AudioContext sampleRate, so the
+// context runs natively and frames are resampled here.
+export async function startMicCapture(
+  stream: MediaStream,
+  onFrame: (frame: Float32Array) => void,
+  { frameMs = 40, targetRate = INPUT_SAMPLE_RATE }: MicCaptureOptions = {}
+): Promise<MicCapture> {
+  const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+  if (!ctx.audioWorklet) {
+    await ctx.close();
+    throw new Error('This browser does not support AudioWorklet.');
+  }
+
+  const moduleUrl = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(moduleUrl);
+  } finally {
+    URL.revokeObjectURL(moduleUrl);
+  }
+
+  const source = ctx.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { frameSize: Math.round(ctx.sampleRate * frameMs / 1000) }
+  });
+
+  let resampleState: ResampleState = INITIAL_RESAMPLE_STATE;
+  node.port.onmessage = (e: MessageEvent<Float32Array>) => {
+    const { output, state } = resampleChunk(e.data, ctx.sampleRate, targetRate, resampleState);
+    resampleState = state;
+    if (output.length) onFrame(output);
+  };
+  source.connect(node);
+
+  return {
+    deviceSampleRate: ctx.sampleRate,
+    stop: async () => {
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+      if (ctx.state !== 'closed') await ctx.close();
+    }
+  };
+}
+
+const BARGE_IN_FRAME_MS = 20;
+
+// Calls onSpeech once, as soon as the mic picks up sustained speech. Used to cut off local
+// speech synthesis, which unlike the Live API has no server-side voice detection. Stricter
+// than the hands-free defaults so the assistant's own voice leaking into the mic doesn't count.
+export async function startBargeInDetector(
+  stream: MediaStream,
+  onSpeech: () => void,
+  { threshold = 0.04, minSpeechMs = 200 }: Partial<VadOptions> = {}
+): Promise<MicCapture> {
+  const vad = createVad({ threshold, minSpeechMs });
+  let fired = false;
+  return startMicCapture(stream, frame => {
+    if (fired || vad.process(frame, BARGE_IN_FRAME_MS) !== 'start') return;
+    fired = true;
+    onSpeech();
+  }, { frameMs: BARGE_IN_FRAME_MS });
+}
@@ -1,3 +1,5 @@
+export const INPUT_SAMPLE_RATE = 16000;
+export const OUTPUT_SAMPLE_RATE = 24000;
 
 export function decode(base64: string): Uint8Array {
   const binaryString = atob(base64);
@@ -18,33 +20,214 @@ export function encode(bytes: Uint8Array): string {
   return btoa(binary);
 }
 
+// Little-endian 16-bit PCM to floats in [-1, 1). Reads through a DataView, so the bytes
+// may start at any offset of their buffer and a trailing odd byte is ignored.
+export function pcm16ToFloat32(bytes: Uint8Array): Float32Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const out = new Float32Array(Math.floor(bytes.byteLength / 2));
+  for (let i = 0; i < out.length; i++) {
+    out[i] = view.getInt16(i * 2, true) / 32768.0;
+  }
+  return out;
+}
+
+// Floats to 16-bit PCM, clamped so loud samples saturate instead of wrapping around
+export function floatTo16BitPCM(data: Float32Array): Int16Array {
+  const out = new Int16Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    const s = Math.max(-1, Math.min(1, data[i]));
+    out[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return out;
+}
+
+// Root-mean-square level of a frame, 0 for silence up to 1 for a full-scale square wave
+export function frameRms(frame: Float32Array): number {
+  if (frame.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+  return Math.sqrt(sum / frame.length);
+}
+
+export interface VadOptions {
+  // RMS level that counts as speech
+  threshold: number;
+  // Silence allowed inside an utterance before it counts as finished
+  hangoverMs: number;
+  // Speech shorter than this (clicks, coughs) never starts an utterance
+  minSpeechMs: number;
+}
+
+export const DEFAULT_VAD_OPTIONS: VadOptions = { threshold: 0.02, hangoverMs: 900, minSpeechMs: 120 };
+
+export type VadEvent = 'start' | 'end';
+
+export interface Vad {
+  // Feed one frame; returns an event when an utterance starts or ends
+  process(frame: Float32Array, frameMs: number): VadEvent | null;
+  isSpeaking(): boolean;
+  reset(): void;
+}
+
+// Energy-based voice activity detection. Good enough to gate a mic in a quiet room; the
+// hangover keeps short pauses between words from splitting an utterance.
+export function createVad(options: Partial<VadOptions> = {}): Vad {
+  const { threshold, hangoverMs, minSpeechMs } = { ...DEFAULT_VAD_OPTIONS, ...options };
+  let speaking = false;
+  let loudMs = 0;
+  let quietMs = 0;
+  return {
+    process(frame, frameMs) {
+      const loud = frameRms(frame) > threshold;
+      if (!speaking) {
+        loudMs = loud ? loudMs + frameMs : 0;
+        if (loudMs < minSpeechMs) return null;
+        speaking = true;
+        quietMs = 0;
+        return 'start';
+      }
+      quietMs = loud ? 0 : quietMs + frameMs;
+      if (quietMs < hangoverMs) return null;
+      speaking = false;
+      loudMs = 0;
+      return 'end';
+    },
+    isSpeaking: () => speaking,
+    reset() {
+      speaking = false;
+      loudMs = 0;
+      quietMs = 0;
+    }
+  };
+}
+
+export interface ResampleState {
+  // Read position for the next output sample, relative to the start of the next chunk
+  position: number;
+  // Last (filtered) input sample of the previous chunk, for interpolating across the boundary
+  last: number;
+  // Anti-aliasing filter memory: x1, x2, y1, y2 for each biquad stage
+  filter: number[];
+}
+
+export const INITIAL_RESAMPLE_STATE: ResampleState = { position: 0, last: 0, filter: [] };
+
+// Q of the three stages of a 6th-order Butterworth low-pass
+const BUTTERWORTH_Q = [0.5176, 0.7071, 1.9319];
+// Cutoff as a fraction of the output Nyquist frequency, leaving room for the filter's roll-off
+const CUTOFF_RATIO = 0.9;
+
+// Low-pass biquad coefficients (RBJ audio EQ cookbook), normalized so a0 = 1
+function lowPassCoefficients(cutoff: number, sampleRate: number, q: number) {
+  const w = 2 * Math.PI * cutoff / sampleRate;
+  const alpha = Math.sin(w) / (2 * q);
+  const cos = Math.cos(w);
+  const a0 = 1 + alpha;
+  const b1 = (1 - cos) / a0;
+  return { b0: b1 / 2, b1, b2: b1 / 2, a1: -2 * cos / a0, a2: (1 - alpha) / a0 };
+}
+
+// Removes everything above the output rate's Nyquist frequency, which would otherwise fold back
+// into the speech band when decimating
+function antiAlias(input: Float32Array, fromRate: number, toRate: number, memory: number[]): { filtered: Float32Array; memory: number[] } {
+  const filtered = Float32Array.from(input);
+  const next = BUTTERWORTH_Q.flatMap((q, stage) => {
+    const { b0, b1, b2, a1, a2 } = lowPassCoefficients(CUTOFF_RATIO * toRate / 2, fromRate, q);
+    let [x1, x2, y1, y2] = memory.slice(stage * 4, stage * 4 + 4);
+    x1 ||= 0; x2 ||= 0; y1 ||= 0; y2 ||= 0;
+    for (let i = 0; i < filtered.length; i++) {
+      const x = filtered[i];
+      const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+      x2 = x1; x1 = x;
+      y2 = y1; y1 = y;
+      filtered[i] = y;
+    }
+    return [x1, x2, y1, y2];
+  });
+  return { filtered, memory: next };
+}
+
+// Streaming resampler: low-passes first when downsampling, then interpolates linearly. Pure: feed
+// the returned state into the next call and consecutive chunks join without clicks or drift.
+export function resampleChunk(
+  input: Float32Array,
+  fromRate: number,
+  toRate: number,
+  state: ResampleState = INITIAL_RESAMPLE_STATE
+): { output: Float32Array; state: ResampleState } {
+  if (fromRate === toRate) {
+    return { output: input, state: { ...state, position: 0, last: input.length ? input[input.length - 1] : state.last } };
+  }
+  const { filtered, memory } = fromRate > toRate ? antiAlias(input, fromRate, toRate, state.filter) : { filtered: input, memory: state.filter };
+  const step = fromRate / toRate;
+  const output: number[] = [];
+  let position = state.position;
+  while (position <= filtered.length - 1) {
+    const index = Math.floor(position);
+    const frac = position - index;
+    const a = index < 0 ? state.last : filtered[index];
+    const b = filtered[index + 1] ?? a;
+    output.push(a + (b - a) * frac);
+    position += step;
+  }
+  return {
+    output: Float32Array.from(output),
+    state: { position: position - filtered.length, last: filtered.length ? filtered[filtered.length - 1] : state.last, filter: memory }
+  };
+}
+
+export function resample(input: Float32Array, fromRate: number, toRate: number): Float32Array {
+  return resampleChunk(input, fromRate, toRate).output;
+}
+
+// Mono 16-bit PCM WAV file: a 44-byte RIFF header followed by the samples
+export function encodeWav(samples: Float32Array, sampleRate: number): Uint8Array {
+  const pcm = floatTo16BitPCM(samples);
+  const bytes = new Uint8Array(44 + pcm.length * 2);
+  const view = new DataView(bytes.buffer);
+  const writeAscii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+  writeAscii(0, 'RIFF');
+  view.setUint32(4, 36 + pcm.length * 2, true);
+  writeAscii(8, 'WAVE');
+  writeAscii(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeAscii(36, 'data');
+  view.setUint32(40, pcm.length * 2, true);
+  for (let i = 0; i < pcm.length; i++) view.setInt16(44 + i * 2, pcm[i], true);
+  return bytes;
+}
+
 export async function decodeAudioData(
   data: Uint8Array,
   ctx: AudioContext,
   sampleRate: number,
   numChannels: number,
 ): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
+  const samples = pcm16ToFloat32(data);
+  const frameCount = Math.floor(samples.length / numChannels);
   const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
 
   for (let channel = 0; channel < numChannels; channel++) {
     const channelData = buffer.getChannelData(channel);
     for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+      channelData[i] = samples[i * numChannels + channel];
     }
   }
   return buffer;
 }
 
-export function createBlob(data: Float32Array): { data: string; mimeType: string } {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
-  }
+export function createBlob(data: Float32Array, sampleRate = INPUT_SAMPLE_RATE): { data: string; mimeType: string } {
+  const int16 = floatTo16BitPCM(data);
   return {
     data: encode(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
+    mimeType: `audio/pcm;rate=${sampleRate}`,
   };
 }
@@ -0,0 +1,69 @@
+import { ChatMessage, ConversationSummary } from '../types';
+import type { LLMMessage, LLMProvider } from './llm-provider';
+
+export interface ContextWindow {
+  messages: LLMMessage[];
+  // Turns that fell out of the budget and are not yet folded into the summary
+  overflow: ChatMessage[];
+}
+
+export const EMPTY_SUMMARY: ConversationSummary = { text: '', coveredUntil: 0 };
+
+// What an attached image counts as against the budget: roughly its token cost in characters.
+// Without it, every image in the window would be re-sent on each request whatever the budget.
+const IMAGE_COST_CHARS = 1000;
+
+const turnCost = (m: ChatMessage) => m.content.length + (m.images?.length || 0) * IMAGE_COST_CHARS;
+
+// Picks the newest user/assistant turns that fit in the character budget.
+// The summary counts against the budget, system log lines never do.
+export function buildContextWindow(history: ChatMessage[], budgetChars: number, summary: ConversationSummary): ContextWindow {
+  const turns = history.filter(m => m.role !== 'system' && m.timestamp > summary.coveredUntil && (m.content.trim() || m.images?.length));
+  let remaining = budgetChars - summary.text.length;
+  let start = turns.length;
+  while (start > 0) {
+    const cost = turnCost(turns[start - 1]);
+    // Always keep the latest turn, even if it alone blows the budget
+    if (cost > remaining && start < turns.length) break;
+    remaining -= cost;
+    start--;
+  }
+
+  const kept = turns.slice(start);
+  // Most backends expect the conversation to open with a user turn
+  while (kept.length > 1 && kept[0].role !== 'user') {
+    kept.shift();
+    start++;
+  }
+
+  return {
+    messages: kept.map(m => ({ role: m.role as 'user' | 'assistant', content: m.content, ...(m.images?.length && { images: m.images }) })),
+    overflow: turns.slice(0, start)
+  };
+}
+
+export function withSummary(systemInstruction: string, summary: ConversationSummary): string {
+  if (!summary.text) return systemInstruction;
+  return `${systemInstruction}\n\nSummary of the earlier conversation (for context, do not repeat it):\n${summary.text}`;
+}
+
+// Folds overflowed turns into the running summary with one extra model call
+export async function summarizeOverflow(
+  provider: LLMProvider,
+  summary: ConversationSummary,
+  overflow: ChatMessage[]
+): Promise<ConversationSummary> {
+  if (overflow.length === 0) return summary;
+  const transcript = overflow.map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}${m.images?.length ? ' [image]' : ''}`).join('\n');
+  const result = await provider.chat({
+    systemInstruction: 'You maintain a running summary of a chat between a user and their anime assistant. Keep names, preferences, open tasks and facts. Reply with the updated summary only, under 120 words.',
+    messages: [{
+      role: 'user',
+      content: `${summary.text ? `Current summary:\n${summary.text}\n\n` : ''}New turns to merge:\n${transcript}`
+    }]
+  });
+  return {
+    text: result.text.trim() || summary.text,
+    coveredUntil: overflow[overflow.length - 1].timestamp
+  };
+}
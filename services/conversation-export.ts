@@ -0,0 +1,90 @@
+import { ChatMessage, Conversation } from '../types';
+import { conversationTitle, newConversation } from './conversation-store';
+import { legacyPersonaId } from './personas';
+
+const EXPORT_VERSION = 1;
+const ROLE_NAMES: Record<ChatMessage['role'], string> = { user: 'User', assistant: 'Assistant', system: 'System' };
+const MESSAGE_HEADING = /^\*\*(User|Assistant|System)\*\* \((.+)\)$/;
+// A heading line inside a message (a pasted export, say) gets one more backslash on export and loses
+// one on import, so it never starts a message of its own
+const HEADING_LIKE = /^\\*\*\*(User|Assistant|System)\*\* \(.+\)$/;
+
+const escapeHeadings = (content: string) =>
+  content.split('\n').map(line => HEADING_LIKE.test(line) ? `\\${line}` : line).join('\n');
+
+export function toJSONExport(conversations: Conversation[]): string {
+  return JSON.stringify({ version: EXPORT_VERSION, exportedAt: new Date().toISOString(), conversations }, null, 2);
+}
+
+export function toMarkdown(conversation: Conversation): string {
+  const header = [
+    `# ${conversationTitle(conversation)}`,
+    '',
+    `- Persona: ${conversation.personaId}`,
+    `- Backend: ${conversation.backend}`,
+    `- Created: ${new Date(conversation.createdAt).toISOString()}`,
+    '',
+    '---'
+  ];
+  const body = conversation.messages.flatMap(m => [
+    '',
+    `**${ROLE_NAMES[m.role]}** (${new Date(m.timestamp).toISOString()})`,
+    '',
+    escapeHeadings(m.content)
+  ]);
+  return [...header, ...body, ''].join('\n');
+}
+
+function parseMarkdown(text: string): Conversation {
+  const lines = text.split(/\r?\n/);
+  const title = lines.find(l => l.startsWith('# '))?.slice(2).trim() || '';
+  const meta = (key: string) => lines.find(l => l.startsWith(`- ${key}: `))?.slice(key.length + 4).trim();
+  const messages: ChatMessage[] = [];
+  let current: { message: ChatMessage; body: string[] } | null = null;
+  const commit = () => {
+    if (current) messages.push({ ...current.message, content: current.body.join('\n').trim() });
+  };
+  for (const line of lines) {
+    const heading = line.match(MESSAGE_HEADING);
+    if (heading) {
+      commit();
+      const role = (Object.keys(ROLE_NAMES) as ChatMessage['role'][]).find(r => ROLE_NAMES[r] === heading[1])!;
+      current = { message: { role, content: '', timestamp: Date.parse(heading[2]) || Date.now() }, body: [] };
+    } else if (current) {
+      current.body.push(HEADING_LIKE.test(line) ? line.slice(1) : line);
+    }
+  }
+  commit();
+  if (messages.length === 0) throw new Error('No messages found in the Markdown file.');
+
+  const persona = meta('Persona');
+  const backend = meta('Backend');
+  return newConversation({
+    title,
+    ...(persona && { personaId: legacyPersonaId(persona) }),
+    backend: backend === 'ollama' || backend === 'openai' ? backend : 'gemini',
+    createdAt: Date.parse(meta('Created') || '') || messages[0].timestamp,
+    updatedAt: messages[messages.length - 1].timestamp,
+    messages
+  });
+}
+
+function isConversation(value: unknown): value is Conversation {
+  return typeof value === 'object' && value !== null && 'messages' in value && Array.isArray(value.messages);
+}
+
+// Accepts our JSON export (one or many conversations) or a Markdown export.
+// Imported conversations always get fresh ids so they never overwrite existing ones.
+export function parseImport(text: string, filename: string): Conversation[] {
+  if (/\.(md|markdown)$/i.test(filename)) return [parseMarkdown(text)];
+  const data = JSON.parse(text);
+  const list: unknown[] = Array.isArray(data) ? data : isConversation(data) ? [data] : data?.conversations || [];
+  const conversations = list.filter(isConversation).map((c: Conversation & { persona?: string }) => ({
+    ...newConversation(c),
+    personaId: legacyPersonaId(c.personaId || c.persona || ''),
+    id: crypto.randomUUID(),
+    messages: c.messages.filter(m => m && typeof m.content === 'string' && ['user', 'assistant', 'system'].includes(m.role))
+  }));
+  if (conversations.length === 0) throw new Error('No conversations found in the file.');
+  return conversations;
+}
@@ -0,0 +1,149 @@
+import { ChatMessage, Conversation } from '../types';
+import { BUILTIN_PERSONAS, legacyPersonaId } from './personas';
+
+const DB_NAME = 'ani_mate';
+const DB_VERSION = 1;
+const STORE = 'conversations';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDB();
+  return promisify(run(db.transaction(STORE, mode).objectStore(STORE)));
+}
+
+export function newConversation(partial: Partial<Conversation> = {}): Conversation {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    title: '',
+    createdAt: now,
+    updatedAt: now,
+    personaId: BUILTIN_PERSONAS[0].id,
+    backend: 'gemini',
+    messages: [],
+    ...partial
+  };
+}
+
+// Untitled conversations are named after their first user message
+export function conversationTitle(conversation: Conversation): string {
+  if (conversation.title) return conversation.title;
+  const first = conversation.messages.find(m => m.role === 'user')?.content.trim();
+  if (!first) return 'New chat';
+  return first.length > 40 ? `${first.slice(0, 40)}…` : first;
+}
+
+// Conversations saved before personas were editable stored the old FEMALE/MALE enum as `persona`
+function upgrade(stored: Conversation & { persona?: string }): Conversation {
+  if (stored.personaId) return stored;
+  const { persona, ...rest } = stored;
+  return { ...rest, personaId: legacyPersonaId(persona || '') };
+}
+
+export async function listConversations(): Promise<Conversation[]> {
+  const all = await withStore<Conversation[]>('readonly', store => store.getAll());
+  return all.map(upgrade).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getConversation(id: string): Promise<Conversation | undefined> {
+  const stored = await withStore<Conversation | undefined>('readonly', store => store.get(id));
+  return stored && upgrade(stored);
+}
+
+export async function saveConversation(conversation: Conversation): Promise<void> {
+  await withStore('readwrite', store => store.put(conversation));
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+}
+
+export async function patchConversation(id: string, patch: Partial<Conversation>): Promise<void> {
+  const existing = await getConversation(id);
+  if (existing) await saveConversation({ ...existing, ...patch });
+}
+
+export interface SearchHit {
+  conversationId: string;
+  title: string;
+  message: ChatMessage;
+  snippet: string;
+}
+
+// Case-insensitive substring match over every stored message
+export async function searchConversations(query: string, limit = 50): Promise<SearchHit[]> {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+  const hits: SearchHit[] = [];
+  for (const conversation of await listConversations()) {
+    for (const message of conversation.messages) {
+      const at = message.content.toLowerCase().indexOf(needle);
+      if (at === -1) continue;
+      const start = Math.max(0, at - 30);
+      const end = Math.min(message.content.length, at + needle.length + 50);
+      hits.push({
+        conversationId: conversation.id,
+        title: conversationTitle(conversation),
+        message,
+        snippet: `${start > 0 ? '…' : ''}${message.content.slice(start, end)}${end < message.content.length ? '…' : ''}`
+      });
+      if (hits.length >= limit) return hits;
+    }
+  }
+  return hits;
+}
+
+// One-time move of the old single-conversation localStorage history into IndexedDB
+export async function migrateLegacyHistory(historyKey: string, summaryKey: string): Promise<Conversation | null> {
+  const raw = localStorage.getItem(historyKey);
+  if (raw === null) return null;
+  let messages: ChatMessage[] = [];
+  let summary;
+  try {
+    messages = JSON.parse(raw);
+    const savedSummary = localStorage.getItem(summaryKey);
+    summary = savedSummary ? JSON.parse(savedSummary) : undefined;
+  } catch (e) {
+    console.error("Failed to read legacy history", e);
+  }
+  let migrated: Conversation | null = null;
+  if (Array.isArray(messages) && messages.length > 0) {
+    migrated = newConversation({
+      title: 'Earlier history',
+      createdAt: messages[0].timestamp,
+      updatedAt: messages[messages.length - 1].timestamp,
+      messages,
+      summary
+    });
+    await saveConversation(migrated);
+  }
+  localStorage.removeItem(historyKey);
+  localStorage.removeItem(summaryKey);
+  return migrated;
+}
@@ -0,0 +1,39 @@
+import { GoogleGenAI } from '@google/genai';
+import { GeminiKeySettings } from '../types';
+
+// Served by server/gemini-proxy.ts
+const PROXY_PATH = '/api/gemini';
+
+export const DEFAULT_GEMINI_KEY_SETTINGS: GeminiKeySettings = { source: 'proxy', apiKey: '' };
+
+export function geminiKeyProblem(settings: GeminiKeySettings): string | null {
+  return settings.source === 'own' && !settings.apiKey.trim() ? 'Add your Gemini API key in the key settings first.' : null;
+}
+
+// For text requests. Through the proxy the SDK sends a placeholder key, which the server replaces with its own.
+export function createGeminiClient(settings: GeminiKeySettings): GoogleGenAI {
+  if (settings.source === 'own') return new GoogleGenAI({ apiKey: settings.apiKey.trim() });
+  return new GoogleGenAI({ apiKey: 'proxy', httpOptions: { baseUrl: `${window.location.origin}${PROXY_PATH}` } });
+}
+
+// The proxy refused or couldn't mint a Live token. Missing keys, static hosts and other 4xx/503
+// answers won't change on a retry; a failing upstream (502) might.
+export class LiveTokenError extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message);
+    this.name = 'LiveTokenError';
+  }
+}
+
+// Live runs over a WebSocket straight to Google, so with the proxy it gets a single-use token instead of the key
+export async function createLiveClient(settings: GeminiKeySettings): Promise<GoogleGenAI> {
+  if (settings.source === 'own') return createGeminiClient(settings);
+  const response = await fetch(`${PROXY_PATH}/token`, { method: 'POST' });
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.token) {
+    // A static deployment has no proxy at all, only the dev and preview servers do
+    const retryable = response.status >= 500 && response.status !== 503;
+    throw new LiveTokenError(data?.error?.message || `No Gemini proxy here (HTTP ${response.status}). Enter your own key in the key settings.`, retryable);
+  }
+  return new GoogleGenAI({ apiKey: data.token, httpOptions: { apiVersion: 'v1alpha' } });
+}
@@ -0,0 +1,81 @@
+import { Content, GenerateContentParameters, GenerateContentResponse } from '@google/genai';
+import { BackendConfig, GeminiKeySettings } from '../types';
+import { createGeminiClient } from './gemini-client';
+import type { ChatRequest, ChatResult, LLMMessage, LLMProvider, ToolCall } from './llm-provider';
+
+function toContents(messages: LLMMessage[]): Content[] {
+  const contents: Content[] = [];
+  messages.forEach(m => {
+    if (m.role === 'tool') {
+      const part = { functionResponse: { id: m.toolCallId, name: m.toolName, response: { result: m.content } } };
+      // Results of parallel calls all go back in one turn
+      const last = contents[contents.length - 1];
+      if (last?.role === 'user' && last.parts?.every(p => p.functionResponse)) last.parts.push(part);
+      else contents.push({ role: 'user', parts: [part] });
+      return;
+    }
+    if (m.role === 'assistant') {
+      const parts: Content['parts'] = m.content ? [{ text: m.content }] : [];
+      m.toolCalls?.forEach(tc => parts.push({
+        functionCall: { id: tc.id, name: tc.name, args: tc.args },
+        ...(tc.thoughtSignature && { thoughtSignature: tc.thoughtSignature })
+      }));
+      contents.push({ role: 'model', parts });
+      return;
+    }
+    const parts: Content['parts'] = (m.images || []).map(image => ({ inlineData: { mimeType: image.mimeType, data: image.data } }));
+    if (m.content || parts.length === 0) parts.push({ text: m.content });
+    contents.push({ role: 'user', parts });
+  });
+  return contents;
+}
+
+// Read from the parts rather than response.functionCalls, which drops each call's thoughtSignature
+function toolCallsOf(response: GenerateContentResponse): ToolCall[] {
+  const parts = response.candidates?.[0]?.content?.parts || [];
+  return parts.filter(part => part.functionCall).map(({ functionCall: fc, thoughtSignature }) => ({
+    id: fc!.id,
+    name: fc!.name || '',
+    args: fc!.args || {},
+    ...(thoughtSignature && { thoughtSignature })
+  }));
+}
+
+export function createGeminiProvider(config: BackendConfig, key: GeminiKeySettings): LLMProvider {
+  const ai = createGeminiClient(key);
+
+  const params = (request: ChatRequest): GenerateContentParameters => ({
+    model: config.model,
+    contents: toContents(request.messages),
+    config: {
+      systemInstruction: request.systemInstruction,
+      tools: request.tools?.length ? [{ functionDeclarations: request.tools }] : undefined,
+      abortSignal: request.signal
+    }
+  });
+
+  return {
+    kind: 'gemini',
+    model: config.model,
+
+    async chat(request: ChatRequest): Promise<ChatResult> {
+      const response = await ai.models.generateContent(params(request));
+      return { text: response.text || '', toolCalls: toolCallsOf(response) };
+    },
+
+    async chatStream(request, onDelta): Promise<ChatResult> {
+      const stream = await ai.models.generateContentStream(params(request));
+      let text = '';
+      const toolCalls: ToolCall[] = [];
+      for await (const chunk of stream) {
+        const delta = chunk.text;
+        if (delta) {
+          text += delta;
+          onDelta(delta);
+        }
+        toolCalls.push(...toolCallsOf(chunk));
+      }
+      return { text, toolCalls };
+    }
+  };
+}
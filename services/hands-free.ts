@@ -0,0 +1,45 @@
+import { VoiceSettings } from '../types';
+import { DEFAULT_VAD_OPTIONS } from './audio-utils';
+import { devanagariToLatin } from './transliteration';
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  handsFree: false,
+  wakeWord: false,
+  vadThreshold: DEFAULT_VAD_OPTIONS.threshold,
+  vadHangoverMs: DEFAULT_VAD_OPTIONS.hangoverMs,
+  bargeIn: false,
+  language: '',
+  script: 'original'
+};
+
+// Speech recognizers hear "hey" a few different ways; a Hindi recognizer writes "हे", romanized as "he"
+const GREETINGS = ['hey', 'hay', 'he', 'hi', 'ok', 'okay'];
+
+export function wakePhraseFor(name: string): string {
+  return `Hey ${name}`;
+}
+
+const normalize = (text: string) =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Romanized Hindi spells long vowels doubled ("heero"), names usually don't ("Hiro")
+const shortVowels = (text: string) => text.replace(/aa/g, 'a').replace(/ee/g, 'i').replace(/oo/g, 'u');
+
+function wakePattern(words: string[]): RegExp {
+  // Recognizers may split a name into pieces ("yu na") or join a multi-word one, so spaces are
+  // optional anywhere in it. Respellings like "you na" are not caught.
+  const namePattern = words.flatMap(word => Array.from(word)).map(escapeRegExp).join('\\s*');
+  return new RegExp(`(?:^|\\s)(?:${GREETINGS.join('|')})\\s+${namePattern}(?:\\s|$)(.*)`, 'u');
+}
+
+// Looks for "hey <name>" anywhere in a transcript. Returns what was said after it ('' when the
+// phrase stood alone), or null when the phrase wasn't said. Devanagari transcripts are matched romanized.
+export function matchWakePhrase(transcript: string, name: string): string | null {
+  const words = normalize(name).split(' ').filter(Boolean);
+  if (words.length === 0) return null;
+  const match = normalize(transcript).match(wakePattern(words))
+    || shortVowels(normalize(devanagariToLatin(transcript))).match(wakePattern(words.map(shortVowels)));
+  return match ? match[1].trim() : null;
+}
@@ -0,0 +1,36 @@
+import { ChatImage } from '../types';
+
+// Draws an image or video frame no larger than maxSize on its longest side and returns it as a JPEG data URL
+export function drawScaled(source: CanvasImageSource, width: number, height: number, maxSize: number, quality = 0.85): string {
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  canvas.getContext('2d')!.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', quality);
+}
+
+export function downscaleImageFile(file: File, maxSize: number, quality = 0.85): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    const url = URL.createObjectURL(file);
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(drawScaled(img, img.width, img.height, maxSize, quality));
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not read the image.'));
+    };
+    img.src = url;
+  });
+}
+
+export function fromDataUrl(dataUrl: string): ChatImage {
+  const [header, data] = dataUrl.split(',');
+  return { mimeType: header.match(/^data:([^;]+)/)?.[1] || 'image/jpeg', data };
+}
+
+export function toDataUrl(image: ChatImage): string {
+  return `data:${image.mimeType};base64,${image.data}`;
+}
@@ -0,0 +1,30 @@
+export interface InputHistory {
+  push(text: string): void;
+  // Moves back (-1) or forward (1) from the current draft; null when there is nowhere to go
+  step(direction: -1 | 1, draft: string): string | null;
+  entries(): string[];
+}
+
+// Shell-style recall of previously sent input; the unsent draft is kept while browsing
+export function createInputHistory(initial: string[] = [], limit = 50): InputHistory {
+  let entries = initial.slice(-limit);
+  let index = entries.length;
+  let draft = '';
+
+  return {
+    push(text) {
+      const trimmed = text.trim();
+      if (trimmed && entries[entries.length - 1] !== trimmed) entries = [...entries, trimmed].slice(-limit);
+      index = entries.length;
+      draft = '';
+    },
+    step(direction, current) {
+      const next = index + direction;
+      if (next < 0 || next > entries.length) return null;
+      if (index === entries.length) draft = current;
+      index = next;
+      return index === entries.length ? draft : entries[index];
+    },
+    entries: () => entries
+  };
+}
@@ -0,0 +1,41 @@
+import { Script } from '../types';
+
+export const LANGUAGES: { code: string, label: string }[] = [
+  { code: 'en-IN', label: 'English (India) / Hinglish' },
+  { code: 'hi-IN', label: 'Hindi' },
+  { code: 'en-US', label: 'English (US)' },
+  { code: 'ja-JP', label: 'Japanese' }
+];
+
+const REPLY_LANGUAGE: Record<string, string> = {
+  'en-IN': 'Reply in Indian English; mixing in Hindi (Hinglish) is fine.',
+  'hi-IN': 'Reply in Hindi.',
+  'en-US': 'Reply in English.',
+  'ja-JP': 'Reply in Japanese.'
+};
+
+const SCRIPT_INSTRUCTION: Record<Script, string> = {
+  original: '',
+  latin: 'Write Hindi words in Latin letters (romanized Hinglish), never in Devanagari.',
+  devanagari: 'Write Hindi words in Devanagari script, never romanized. Keep English words in Latin letters.'
+};
+
+// Extra lines for the system instruction; a language picked here overrides whatever the persona prompt says
+export function languageInstruction(language: string, script: Script): string {
+  return [REPLY_LANGUAGE[language] || '', SCRIPT_INSTRUCTION[script]].filter(Boolean).join(' ');
+}
+
+const normalizeTag = (tag: string) => tag.replace('_', '-').toLowerCase();
+
+// The persona's chosen voice if it speaks the language, else the best match: exact tag, then same base language.
+// Android reports tags like "hi_IN", hence the normalizing.
+export function pickVoice(voices: SpeechSynthesisVoice[], language: string, preferred: string): SpeechSynthesisVoice | undefined {
+  const tag = normalizeTag(language);
+  const base = tag.split('-')[0];
+  const sameBase = voices.filter(v => normalizeTag(v.lang).split('-')[0] === base);
+  const named = preferred ? voices.find(v => v.name === preferred) : undefined;
+  if (named && (sameBase.includes(named) || sameBase.length === 0)) return named;
+  const exact = sameBase.filter(v => normalizeTag(v.lang) === tag);
+  const candidates = exact.length ? exact : sameBase;
+  return candidates.find(v => v.localService) || candidates[0];
+}
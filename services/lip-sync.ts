@@ -0,0 +1,71 @@
+export interface LipSyncFrame {
+  // Overall loudness, 0..1
+  amplitude: number;
+  // Per-band energy for the visualizer, 0..1, low to high frequencies
+  bands: number[];
+}
+
+export type MouthState = 'closed' | 'half' | 'open';
+
+export const BAND_COUNT = 8;
+export const SILENT_FRAME: LipSyncFrame = { amplitude: 0, bands: new Array(BAND_COUNT).fill(0) };
+
+// Speech energy sits in the lower part of the spectrum, so only that part is spread over the bands
+const SPEECH_SPECTRUM_FRACTION = 0.5;
+
+export function mouthState(amplitude: number): MouthState {
+  if (amplitude > 0.22) return 'open';
+  if (amplitude > 0.08) return 'half';
+  return 'closed';
+}
+
+// Reads the analyser's current waveform and spectrum into a frame
+export function analyserFrame(analyser: AnalyserNode, bandCount = BAND_COUNT): LipSyncFrame {
+  const wave = new Float32Array(analyser.fftSize);
+  analyser.getFloatTimeDomainData(wave);
+  let sumSquares = 0;
+  for (let i = 0; i < wave.length; i++) sumSquares += wave[i] * wave[i];
+  // Raw speech RMS rarely passes 0.3, scale it so loud syllables reach the top
+  const amplitude = Math.min(1, Math.sqrt(sumSquares / wave.length) * 3.5);
+
+  const spectrum = new Uint8Array(analyser.frequencyBinCount);
+  analyser.getByteFrequencyData(spectrum);
+  const usable = Math.max(bandCount, Math.floor(spectrum.length * SPEECH_SPECTRUM_FRACTION));
+  const perBand = Math.floor(usable / bandCount);
+  const bands = Array.from({ length: bandCount }, (_, b) => {
+    let sum = 0;
+    for (let i = b * perBand; i < (b + 1) * perBand; i++) sum += spectrum[i];
+    return sum / perBand / 255;
+  });
+  return { amplitude, bands };
+}
+
+export interface WordPulse {
+  // Call from SpeechSynthesisUtterance.onboundary
+  onBoundary: (wordLength?: number) => void;
+  reset: () => void;
+  frame: (now?: number) => LipSyncFrame;
+}
+
+// speechSynthesis exposes no audio, so word boundaries drive a synthetic open/close envelope instead
+export function createWordPulse(): WordPulse {
+  let start = -Infinity;
+  let duration = 0;
+  return {
+    onBoundary(wordLength = 4) {
+      start = performance.now();
+      duration = Math.max(120, wordLength * 70);
+    },
+    reset() {
+      start = -Infinity;
+    },
+    frame(now = performance.now()) {
+      const t = (now - start) / duration;
+      if (t < 0 || t > 1) return SILENT_FRAME;
+      // One open-close per word, with a faster flutter for syllables on top
+      const amplitude = Math.sin(Math.PI * t) * (0.65 + 0.35 * Math.abs(Math.sin(now / 45)));
+      const bands = Array.from({ length: BAND_COUNT }, (_, b) => amplitude * (1 - b / (BAND_COUNT + 2)) * (0.75 + 0.25 * Math.sin(now / 60 + b)));
+      return { amplitude, bands };
+    }
+  };
+}
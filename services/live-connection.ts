@@ -0,0 +1,22 @@
+export const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+
+export const MAX_RECONNECT_ATTEMPTS = 5;
+
+// Close codes for invalid keys, unsupported models or a rejected setup; reconnecting won't help
+const FATAL_CLOSE_CODES = new Set([1007, 1008]);
+
+export function isRetryableClose(code: number): boolean {
+  return !FATAL_CLOSE_CODES.has(code);
+}
+
+// Exponential backoff with jitter: roughly 1 s, 2 s, 4 s ... capped at maxMs
+export function reconnectDelay(attempt: number, baseMs = 1000, maxMs = 15000): number {
+  const ceiling = Math.min(maxMs, baseMs * 2 ** attempt);
+  return ceiling / 2 + Math.random() * ceiling / 2;
+}
+
+export function describeClose(code: number, reason: string): string {
+  if (reason) return reason;
+  if (code === 1006) return 'Connection to Gemini Live was lost.';
+  return `Gemini Live closed the connection (code ${code}).`;
+}
@@ -0,0 +1,75 @@
+import { FunctionDeclaration } from '@google/genai';
+import { BackendKind, BackendSettings, ChatImage, GeminiKeySettings } from '../types';
+import { createGeminiProvider } from './gemini-provider';
+import { createOllamaProvider } from './ollama-provider';
+import { createOpenAIProvider } from './openai-provider';
+
+export interface ToolCall {
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+  // Gemini's opaque signature on the call, which has to be sent back with it on the next request
+  thoughtSignature?: string;
+}
+
+export interface LLMMessage {
+  role: 'user' | 'assistant' | 'tool';
+  content: string;
+  // Set on assistant turns that requested tools
+  toolCalls?: ToolCall[];
+  // Set on tool turns, pointing back at the call they answer
+  toolName?: string;
+  toolCallId?: string;
+  // Images attached to a user turn
+  images?: ChatImage[];
+}
+
+export interface ChatRequest {
+  systemInstruction: string;
+  messages: LLMMessage[];
+  tools?: FunctionDeclaration[];
+  signal?: AbortSignal;
+}
+
+export interface ChatResult {
+  text: string;
+  toolCalls: ToolCall[];
+}
+
+export interface LLMProvider {
+  readonly kind: BackendKind;
+  readonly model: string;
+  chat(request: ChatRequest): Promise<ChatResult>;
+  // Same as chat, but reports text deltas as they arrive
+  chatStream(request: ChatRequest, onDelta: (delta: string) => void): Promise<ChatResult>;
+}
+
+export const BACKEND_LABELS: Record<BackendKind, string> = {
+  gemini: 'Gemini Cloud',
+  ollama: 'Ollama',
+  openai: 'OpenAI-Compatible'
+};
+
+// Guards values read back from storage, imports and slash commands
+export function isBackendKind(value: unknown): value is BackendKind {
+  return typeof value === 'string' && Object.hasOwn(BACKEND_LABELS, value);
+}
+
+export const DEFAULT_BACKEND_SETTINGS: BackendSettings = {
+  active: 'gemini',
+  configs: {
+    gemini: { endpoint: '', model: 'gemini-3-flash-preview' },
+    ollama: { endpoint: 'http://localhost:11434', model: 'llama3.2:3b-instruct-q4_K_M' },
+    openai: { endpoint: 'http://localhost:1234/v1', model: 'local-model' }
+  },
+  contextBudget: 6000
+};
+
+export function createProvider(settings: BackendSettings, geminiKey: GeminiKeySettings): LLMProvider {
+  const config = settings.configs[settings.active];
+  switch (settings.active) {
+    case 'ollama': return createOllamaProvider(config);
+    case 'openai': return createOpenAIProvider(config);
+    default: return createGeminiProvider(config, geminiKey);
+  }
+}
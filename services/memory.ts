@@ -0,0 +1,138 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+import { ChatMessage, Conversation, MemoryFact, MemorySettings } from '../types';
+
+export const DEFAULT_MEMORY_SETTINGS: MemorySettings = { enabled: true, embeddingModel: '' };
+
+export const MAX_MEMORIES = 200;
+// Facts put into the system instruction; the rest stay reachable through recallMemories
+const PROMPT_FACT_LIMIT = 15;
+// Recent messages considered when searching old conversations
+const HISTORY_SEARCH_WINDOW = 400;
+
+export const MEMORY_TOOLS: FunctionDeclaration[] = [
+  {
+    name: 'saveMemory',
+    description: "Remember a lasting fact about the user for future conversations, such as their name, favourite anime or music taste.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: { fact: { type: Type.STRING, description: 'The fact as a short sentence, e.g. "The user\'s favourite anime is Frieren."' } },
+      required: ['fact']
+    }
+  },
+  {
+    name: 'recallMemories',
+    description: 'Look up saved facts and earlier conversations with the user about a topic.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { query: { type: Type.STRING, description: 'What to look for' } },
+      required: ['query']
+    }
+  }
+];
+
+export function isMemoryTool(name: string): boolean {
+  return MEMORY_TOOLS.some(t => t.name === name);
+}
+
+const STOP_WORDS = new Set(['the', 'and', 'for', 'are', 'you', 'your', 'was', 'with', 'that', 'this', 'what', 'who', 'user', 'users', 'likes', 'hai', 'aur', 'kya']);
+
+const keywords = (text: string) =>
+  new Set(text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(w => w.length > 2 && !STOP_WORDS.has(w)));
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+function overlap(query: Set<string>, text: string): number {
+  let score = 0;
+  for (const word of keywords(text)) if (query.has(word)) score++;
+  return score;
+}
+
+// Adds a fact, or refreshes it if the same fact is already known
+export function addMemory(facts: MemoryFact[], text: string, source: MemoryFact['source']): MemoryFact[] {
+  const trimmed = text.trim();
+  const now = Date.now();
+  const existing = facts.find(f => normalize(f.text) === normalize(trimmed));
+  if (existing) return facts.map(f => f === existing ? { ...f, text: trimmed, updatedAt: now } : f);
+  const fact: MemoryFact = { id: crypto.randomUUID(), text: trimmed, source, createdAt: now, updatedAt: now };
+  return [...facts, fact].slice(-MAX_MEMORIES);
+}
+
+// Facts sharing the most words with the query, newest first among equals
+export function rankFacts(facts: MemoryFact[], query: string, limit: number, matchingOnly = false): MemoryFact[] {
+  const words = keywords(query);
+  return facts
+    .map(fact => ({ fact, score: overlap(words, fact.text) }))
+    .filter(({ score }) => !matchingOnly || score > 0)
+    .sort((a, b) => b.score - a.score || b.fact.updatedAt - a.fact.updatedAt)
+    .slice(0, limit)
+    .map(({ fact }) => fact);
+}
+
+// Appended to the system instruction. With many facts, the ones closest to the latest request win.
+export function memoryInstruction(facts: MemoryFact[], query: string): string {
+  const known = rankFacts(facts, query, PROMPT_FACT_LIMIT);
+  const intro = 'Save lasting facts about the user (name, likes, preferences) with saveMemory, and use recallMemories to look up older details.';
+  if (known.length === 0) return intro;
+  return `${intro}\nWhat you remember about the user:\n${known.map(f => `- ${f.text}`).join('\n')}`;
+}
+
+export type Embedder = (texts: string[]) => Promise<number[][]>;
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0, na = 0, nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0;
+}
+
+// Message vectors by text, so each old message is only embedded once per page load
+const embeddingCache = new Map<string, number[]>();
+
+async function embedAll(embed: Embedder, texts: string[]): Promise<number[][]> {
+  const missing = [...new Set(texts.filter(t => !embeddingCache.has(t)))];
+  if (missing.length) {
+    const vectors = await embed(missing);
+    missing.forEach((t, i) => embeddingCache.set(t, vectors[i]));
+  }
+  return texts.map(t => embeddingCache.get(t)!);
+}
+
+// Older user and assistant messages most related to the query, by embedding similarity when an
+// embedder is given and keyword overlap otherwise
+export async function searchHistory(conversations: Conversation[], query: string, limit = 3, embed?: Embedder): Promise<ChatMessage[]> {
+  const candidates = conversations
+    .flatMap(c => c.messages)
+    .filter(m => m.role !== 'system' && m.content.trim())
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, HISTORY_SEARCH_WINDOW);
+  if (candidates.length === 0) return [];
+
+  if (embed) {
+    const [queryVector, ...vectors] = await embedAll(embed, [query, ...candidates.map(m => m.content)]);
+    return candidates
+      .map((message, i) => ({ message, score: cosine(queryVector, vectors[i]) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ message }) => message);
+  }
+
+  const words = keywords(query);
+  return candidates
+    .map(message => ({ message, score: overlap(words, message.content) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ message }) => message);
+}
+
+// What recallMemories hands back to the model
+export function describeRecall(facts: MemoryFact[], messages: ChatMessage[]): string {
+  const lines = [
+    ...facts.map(f => `Fact: ${f.text}`),
+    ...messages.map(m => `${new Date(m.timestamp).toLocaleDateString()} ${m.role === 'user' ? 'User' : 'You'}: ${m.content.slice(0, 300)}`)
+  ];
+  return lines.length ? lines.join('\n') : 'Nothing remembered about that.';
+}
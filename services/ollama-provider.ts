@@ -0,0 +1,175 @@
+import { FunctionDeclaration } from '@google/genai';
+import { BackendConfig } from '../types';
+import type { ChatRequest, ChatResult, LLMMessage, LLMProvider, ToolCall } from './llm-provider';
+import { ensureOk, readLines } from './stream-utils';
+import { toJsonSchema, toOpenAITools } from './tool-schema';
+import type { Embedder } from './memory';
+
+interface OllamaToolCall {
+  function: { name: string; arguments: Record<string, unknown> | string };
+}
+
+interface OllamaMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  tool_calls?: OllamaToolCall[];
+  tool_name?: string;
+  // Base64 images for multimodal models such as llava
+  images?: string[];
+}
+
+function toOllamaMessages(systemInstruction: string, messages: LLMMessage[]): OllamaMessage[] {
+  return [
+    { role: 'system', content: systemInstruction },
+    ...messages.map((m): OllamaMessage => {
+      if (m.role === 'tool') return { role: 'tool', content: m.content, tool_name: m.toolName };
+      if (m.toolCalls?.length) {
+        return {
+          role: 'assistant',
+          content: m.content,
+          tool_calls: m.toolCalls.map(tc => ({ function: { name: tc.name, arguments: tc.args } }))
+        };
+      }
+      return { role: m.role, content: m.content, ...(m.images?.length && { images: m.images.map(i => i.data) }) };
+    })
+  ];
+}
+
+function parseToolCalls(calls: OllamaToolCall[] | undefined): ToolCall[] {
+  return (calls || []).map(tc => {
+    let args = tc.function.arguments;
+    if (typeof args === 'string') {
+      try { args = JSON.parse(args); } catch { args = {}; }
+    }
+    return { name: tc.function.name, args: args as Record<string, unknown> };
+  });
+}
+
+// For models without native tool support: describe the tools in the prompt and force JSON output
+function jsonModeInstruction(systemInstruction: string, tools: FunctionDeclaration[]): string {
+  const lines = tools.map(t => {
+    const schema = t.parameters ? toJsonSchema(t.parameters) : {};
+    const args = Object.entries(schema.properties || {}).map(([key, prop]) => `${key}: ${prop.type}`).join(', ');
+    return `- ${t.name}(${args}): ${t.description || schema.description || ''}`;
+  });
+  return `${systemInstruction}
+
+You can use these tools:
+${lines.join('\n')}
+
+Always answer with a single JSON object: {"reply": "<what you say to the user>", "tool": {"name": "<tool name>", "args": {}}}.
+Leave out "tool" unless the user needs one. After a tool result arrives, answer with "reply" only.`;
+}
+
+function toJsonModeMessages(messages: LLMMessage[]): LLMMessage[] {
+  return messages.map(m => {
+    if (m.role === 'tool') return { role: 'user', content: `Tool result for ${m.toolName}: ${m.content}` };
+    if (m.toolCalls?.length) {
+      const [call] = m.toolCalls;
+      return { role: 'assistant', content: JSON.stringify({ reply: m.content, tool: { name: call.name, args: call.args } }) };
+    }
+    return m;
+  });
+}
+
+function parseJsonModeReply(raw: string): ChatResult {
+  try {
+    const data = JSON.parse(raw);
+    const toolCalls: ToolCall[] = data.tool?.name ? [{ name: data.tool.name, args: data.tool.args || {} }] : [];
+    return { text: typeof data.reply === 'string' ? data.reply : '', toolCalls };
+  } catch {
+    return { text: raw, toolCalls: [] };
+  }
+}
+
+export function createOllamaProvider(config: BackendConfig): LLMProvider {
+  const url = `${config.endpoint.replace(/\/+$/, '')}/api/chat`;
+  // Flipped once the model rejects the tools field, so later requests skip straight to JSON mode
+  let nativeTools = true;
+
+  const post = (body: Record<string, unknown>, signal?: AbortSignal) => fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ model: config.model, ...body }),
+    signal
+  });
+
+  const postNative = async (request: ChatRequest, stream: boolean): Promise<Response | null> => {
+    const useTools = nativeTools && !!request.tools?.length;
+    const response = await post({
+      messages: toOllamaMessages(request.systemInstruction, request.messages),
+      tools: useTools ? toOpenAITools(request.tools!) : undefined,
+      stream
+    }, request.signal);
+    if (useTools && response.status === 400) {
+      const detail = await response.text();
+      if (/does not support tools/i.test(detail)) {
+        nativeTools = false;
+        return null;
+      }
+      throw new Error(`Ollama responded 400: ${detail.slice(0, 200)}`);
+    }
+    return ensureOk(response, 'Ollama');
+  };
+
+  const chatJsonMode = async (request: ChatRequest): Promise<ChatResult> => {
+    const response = await post({
+      messages: toOllamaMessages(jsonModeInstruction(request.systemInstruction, request.tools!), toJsonModeMessages(request.messages)),
+      format: 'json',
+      stream: false
+    }, request.signal);
+    const data = await (await ensureOk(response, 'Ollama')).json();
+    return parseJsonModeReply(data.message?.content || '');
+  };
+
+  const wantsJsonMode = (request: ChatRequest) => !nativeTools && !!request.tools?.length;
+
+  return {
+    kind: 'ollama',
+    model: config.model,
+
+    async chat(request: ChatRequest): Promise<ChatResult> {
+      const response = wantsJsonMode(request) ? null : await postNative(request, false);
+      if (!response) return chatJsonMode(request);
+      const data = await response.json();
+      return { text: data.message?.content || '', toolCalls: parseToolCalls(data.message?.tool_calls) };
+    },
+
+    async chatStream(request, onDelta): Promise<ChatResult> {
+      const response = wantsJsonMode(request) ? null : await postNative(request, true);
+      if (!response) {
+        // JSON mode cannot be spoken while it streams, so the reply arrives in one piece
+        const result = await chatJsonMode(request);
+        if (result.text) onDelta(result.text);
+        return result;
+      }
+      let text = '';
+      const toolCalls: ToolCall[] = [];
+      for await (const line of readLines(response)) {
+        const chunk = JSON.parse(line);
+        if (chunk.error) throw new Error(`Ollama: ${chunk.error}`);
+        const delta: string = chunk.message?.content || '';
+        if (delta) {
+          text += delta;
+          onDelta(delta);
+        }
+        toolCalls.push(...parseToolCalls(chunk.message?.tool_calls));
+      }
+      return { text, toolCalls };
+    }
+  };
+}
+
+// Vectors for memory search, from an embedding model such as nomic-embed-text
+export function createOllamaEmbedder(endpoint: string, model: string): Embedder {
+  const url = `${endpoint.replace(/\/+$/, '')}/api/embed`;
+  return async texts => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model, input: texts })
+    });
+    const data = await (await ensureOk(response, 'Ollama')).json();
+    return data.embeddings;
+  };
+}
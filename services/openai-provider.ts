@@ -0,0 +1,119 @@
+import { BackendConfig } from '../types';
+import type { ChatRequest, ChatResult, LLMProvider, ToolCall } from './llm-provider';
+import { toDataUrl } from './images';
+import { ensureOk, readLines } from './stream-utils';
+import { toOpenAITools } from './tool-schema';
+
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+type OpenAIContentPart = { type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } };
+
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | OpenAIContentPart[] | null;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+}
+
+function toOpenAIMessages(request: ChatRequest): OpenAIMessage[] {
+  const out: OpenAIMessage[] = [{ role: 'system', content: request.systemInstruction }];
+  request.messages.forEach(m => {
+    if (m.role === 'assistant' && m.toolCalls?.length) {
+      out.push({
+        role: 'assistant',
+        content: m.content || null,
+        tool_calls: m.toolCalls.map(tc => ({
+          id: tc.id ?? '',
+          type: 'function',
+          function: { name: tc.name, arguments: JSON.stringify(tc.args) }
+        }))
+      });
+    } else if (m.role === 'tool') {
+      out.push({ role: 'tool', content: m.content, tool_call_id: m.toolCallId });
+    } else if (m.images?.length) {
+      out.push({
+        role: m.role,
+        content: [
+          ...m.images.map((image): OpenAIContentPart => ({ type: 'image_url', image_url: { url: toDataUrl(image) } })),
+          ...(m.content ? [{ type: 'text' as const, text: m.content }] : [])
+        ]
+      });
+    } else {
+      out.push({ role: m.role, content: m.content });
+    }
+  });
+  return out;
+}
+
+// Some servers leave the id out; the tool turn answering the call has to quote the same one back
+const callId = (id: string | undefined) => id || `call_${crypto.randomUUID().slice(0, 8)}`;
+
+function parseArgs(raw: string): Record<string, unknown> {
+  try {
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+}
+
+// LM Studio, llama.cpp server, vLLM and friends all speak /v1/chat/completions
+export function createOpenAIProvider(config: BackendConfig): LLMProvider {
+  const url = `${config.endpoint.replace(/\/+$/, '')}/chat/completions`;
+
+  const post = (request: ChatRequest, stream: boolean) => fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      model: config.model,
+      messages: toOpenAIMessages(request),
+      tools: request.tools?.length ? toOpenAITools(request.tools) : undefined,
+      stream
+    }),
+    signal: request.signal
+  }).then(res => ensureOk(res, 'OpenAI-compatible server'));
+
+  return {
+    kind: 'openai',
+    model: config.model,
+
+    async chat(request: ChatRequest): Promise<ChatResult> {
+      const data = await (await post(request, false)).json();
+      const message = data.choices?.[0]?.message || {};
+      const toolCalls: ToolCall[] = (message.tool_calls || []).map((tc: OpenAIToolCall) => ({
+        id: callId(tc.id),
+        name: tc.function.name,
+        args: parseArgs(tc.function.arguments)
+      }));
+      return { text: message.content || '', toolCalls };
+    },
+
+    async chatStream(request, onDelta): Promise<ChatResult> {
+      const response = await post(request, true);
+      let text = '';
+      // Tool call fragments arrive keyed by index and have to be stitched back together
+      const partial: { id?: string; name: string; args: string }[] = [];
+      for await (const line of readLines(response)) {
+        if (!line.startsWith('data:')) continue;
+        const payload = line.slice(5).trim();
+        if (payload === '[DONE]') break;
+        const delta = JSON.parse(payload).choices?.[0]?.delta || {};
+        if (delta.content) {
+          text += delta.content;
+          onDelta(delta.content);
+        }
+        for (const tc of delta.tool_calls || []) {
+          const slot = partial[tc.index ?? 0] ||= { name: '', args: '' };
+          if (tc.id) slot.id = tc.id;
+          if (tc.function?.name) slot.name += tc.function.name;
+          if (tc.function?.arguments) slot.args += tc.function.arguments;
+        }
+      }
+      const toolCalls = partial.filter(Boolean).map(p => ({ id: callId(p.id), name: p.name, args: parseArgs(p.args) }));
+      return { text, toolCalls };
+    }
+  };
+}
@@ -0,0 +1,115 @@
+import { Persona, VoiceState } from '../types';
+import { LipSyncFrame } from './lip-sync';
+
+const CHANNEL_NAME = 'ani-mate-overlay';
+
+export interface OverlayState {
+  voiceState: VoiceState;
+  isLocal: boolean;
+  backendLabel: string;
+  // What the assistant is saying right now, '' between replies
+  subtitle: string;
+}
+
+type OverlayMessage =
+  | { type: 'hello' }
+  | { type: 'persona'; persona: Persona }
+  | { type: 'state'; state: OverlayState }
+  | { type: 'frame'; frame: LipSyncFrame };
+
+export interface OverlayPublisher {
+  publishPersona(persona: Persona): void;
+  publishState(state: OverlayState): void;
+  publishFrame(frame: LipSyncFrame): void;
+  // An overlay just opened and needs the full picture
+  onHello(handler: () => void): void;
+  close(): void;
+}
+
+// Main window side. Persona goes out separately because avatars can be large data URLs.
+export function createOverlayPublisher(): OverlayPublisher {
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  const post = (message: OverlayMessage) => channel.postMessage(message);
+  return {
+    publishPersona: persona => post({ type: 'persona', persona }),
+    publishState: state => post({ type: 'state', state }),
+    publishFrame: frame => post({ type: 'frame', frame }),
+    onHello(handler) {
+      channel.onmessage = (e: MessageEvent<OverlayMessage>) => {
+        if (e.data.type === 'hello') handler();
+      };
+    },
+    close: () => channel.close()
+  };
+}
+
+// Overlay side; returns an unsubscribe function
+export function subscribeOverlay(handlers: {
+  onPersona: (persona: Persona) => void;
+  onState: (state: OverlayState) => void;
+  onFrame: (frame: LipSyncFrame) => void;
+}): () => void {
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (e: MessageEvent<OverlayMessage>) => {
+    const message = e.data;
+    if (message.type === 'persona') handlers.onPersona(message.persona);
+    else if (message.type === 'state') handlers.onState(message.state);
+    else if (message.type === 'frame') handlers.onFrame(message.frame);
+  };
+  channel.postMessage({ type: 'hello' } satisfies OverlayMessage);
+  return () => channel.close();
+}
+
+export type OverlayPosition = 'top-left' | 'top-center' | 'top-right' | 'center' | 'bottom-left' | 'bottom-center' | 'bottom-right';
+export type SubtitleStyle = 'box' | 'outline' | 'none';
+
+export interface OverlayOptions {
+  position: OverlayPosition;
+  // Character width in pixels; height follows at 5:4
+  size: number;
+  subtitles: SubtitleStyle;
+  fontSize: number;
+  color: string;
+  // How long the last line stays up after the assistant stops talking
+  holdMs: number;
+}
+
+const POSITIONS: OverlayPosition[] = ['top-left', 'top-center', 'top-right', 'center', 'bottom-left', 'bottom-center', 'bottom-right'];
+const SUBTITLE_STYLES: SubtitleStyle[] = ['box', 'outline', 'none'];
+
+export const DEFAULT_OVERLAY_OPTIONS: OverlayOptions = {
+  position: 'bottom-right',
+  size: 420,
+  subtitles: 'box',
+  fontSize: 28,
+  color: '#ffffff',
+  holdMs: 3000
+};
+
+// e.g. /overlay?position=bottom-left&size=360&subtitles=outline&fontSize=32&color=%23ffd6f5
+export function parseOverlayOptions(search: string): OverlayOptions {
+  const params = new URLSearchParams(search);
+  const number = (key: string, fallback: number, min: number, max: number) => {
+    const value = Number(params.get(key));
+    return params.has(key) && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+  };
+  const position = params.get('position') as OverlayPosition;
+  const subtitles = params.get('subtitles') as SubtitleStyle;
+  return {
+    position: POSITIONS.includes(position) ? position : DEFAULT_OVERLAY_OPTIONS.position,
+    size: number('size', DEFAULT_OVERLAY_OPTIONS.size, 120, 2000),
+    subtitles: SUBTITLE_STYLES.includes(subtitles) ? subtitles : DEFAULT_OVERLAY_OPTIONS.subtitles,
+    fontSize: number('fontSize', DEFAULT_OVERLAY_OPTIONS.fontSize, 10, 96),
+    color: params.get('color') || DEFAULT_OVERLAY_OPTIONS.color,
+    holdMs: number('hold', DEFAULT_OVERLAY_OPTIONS.holdMs, 0, 60000)
+  };
+}
+
+// Long replies scroll through; only the tail fits on screen
+export function subtitleTail(text: string, maxChars = 140): string {
+  const trimmed = text.trim();
+  if (trimmed.length <= maxChars) return trimmed;
+  const tail = trimmed.slice(-maxChars);
+  const space = tail.indexOf(' ');
+  return `…${space > 0 ? tail.slice(space + 1) : tail}`;
+}
@@ -0,0 +1,101 @@
+import { Persona } from '../types';
+import { downscaleImageFile } from './images';
+
+export const GEMINI_VOICES = ['Kore', 'Puck', 'Aoede', 'Leda', 'Zephyr', 'Charon', 'Fenrir', 'Orus'];
+
+const PACK_VERSION = 1;
+const AVATAR_MAX_SIZE = 512;
+
+export const BUILTIN_PERSONAS: Persona[] = [
+  {
+    id: 'yuna',
+    name: 'Yuna',
+    systemPrompt: 'You are Yuna, a cheerful anime assistant. Speak in Hinglish (English+Hindi) and use cute anime expressions.',
+    greeting: 'Namaste! I am your Yuna. Main aapki system commands ya music search karne me help kar sakti hoon! Speak to me or type below.',
+    geminiVoice: 'Kore',
+    localVoice: '',
+    rate: 1.0,
+    pitch: 1.2,
+    language: 'en-IN',
+    avatarUrl: 'https://static.beebom.com/wp-content/uploads/2025/09/reze.jpg?w=1024',
+    builtIn: true
+  },
+  {
+    id: 'hiro',
+    name: 'Hiro',
+    systemPrompt: 'You are Hiro, a calm and witty anime assistant. Speak in Hinglish (English+Hindi).',
+    greeting: 'Namaste! I am your Hiro. Main aapki system commands ya music search karne me help kar sakta hoon! Speak to me or type below.',
+    geminiVoice: 'Puck',
+    localVoice: '',
+    rate: 1.0,
+    pitch: 0.9,
+    language: 'en-IN',
+    avatarUrl: 'https://images.unsplash.com/photo-1613333151422-791753347ad6?q=80&w=800&auto=format&fit=crop',
+    builtIn: true
+  }
+];
+
+// Values of the old Personality enum, still found in stored conversations
+const LEGACY_PERSONA_IDS: Record<string, string> = { FEMALE: 'yuna', MALE: 'hiro' };
+
+export function legacyPersonaId(id: string): string {
+  return LEGACY_PERSONA_IDS[id] || id;
+}
+
+export function findPersona(personas: Persona[], id: string | undefined): Persona {
+  return personas.find(p => p.id === legacyPersonaId(id || '')) || personas[0] || BUILTIN_PERSONAS[0];
+}
+
+// One instruction for Live, text and local backends so a persona behaves the same everywhere.
+// languageNote comes from the language settings and goes last so it wins over the persona prompt.
+export function systemInstructionFor(persona: Persona, languageNote = ''): string {
+  const base = `${persona.systemPrompt.trim()}\nYour name is ${persona.name}. Use your tools to search the web, open YouTube, play music or run the user's custom actions when asked. Keep replies short enough to be spoken aloud.`;
+  return languageNote ? `${base}\n${languageNote}` : base;
+}
+
+export function blankPersona(): Persona {
+  return {
+    ...BUILTIN_PERSONAS[0],
+    id: crypto.randomUUID(),
+    name: 'New Persona',
+    systemPrompt: 'You are a friendly anime assistant.',
+    greeting: 'Hello! How can I help?',
+    builtIn: false
+  };
+}
+
+export function toPersonaPack(personas: Persona[]): string {
+  return JSON.stringify({
+    version: PACK_VERSION,
+    personas: personas.map(({ builtIn, ...persona }) => persona)
+  }, null, 2);
+}
+
+function isPersona(value: unknown): value is Persona {
+  return typeof value === 'object' && value !== null
+    && 'name' in value && typeof value.name === 'string'
+    && 'systemPrompt' in value && typeof value.systemPrompt === 'string';
+}
+
+// Reads a persona pack (or a single persona). Ids that clash with existing personas are replaced
+// so an import never silently overwrites someone's character.
+export function parsePersonaPack(text: string, existing: Persona[]): Persona[] {
+  const data = JSON.parse(text);
+  const list: unknown[] = Array.isArray(data) ? data : isPersona(data) ? [data] : data?.personas || [];
+  const taken = new Set(existing.map(p => p.id));
+  const personas = list.filter(isPersona).map(p => {
+    const persona: Persona = { ...blankPersona(), ...p, builtIn: false };
+    persona.rate = Number(persona.rate) || 1;
+    persona.pitch = Number(persona.pitch) || 1;
+    if (!persona.id || taken.has(persona.id)) persona.id = crypto.randomUUID();
+    taken.add(persona.id);
+    return persona;
+  });
+  if (personas.length === 0) throw new Error('No personas found in the file.');
+  return personas;
+}
+
+// Uploaded avatars are downscaled so they fit comfortably in localStorage
+export function readAvatarFile(file: File): Promise<string> {
+  return downscaleImageFile(file, AVATAR_MAX_SIZE);
+}
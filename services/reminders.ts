@@ -0,0 +1,151 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+import { Reminder } from '../types';
+
+// Longest timer the assistant may set
+const MAX_TIMER_MS = 7 * 24 * 60 * 60 * 1000;
+// setTimeout overflows past about 24.8 days, so longer waits are re-armed on the way
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+// Items that came due this long before the page was open are announced as missed
+export const MISSED_AFTER_MS = 60 * 1000;
+
+export const REMINDER_TOOLS: FunctionDeclaration[] = [
+  {
+    name: 'setTimer',
+    description: 'Start a countdown timer that alerts the user when it finishes.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        minutes: { type: Type.NUMBER, description: 'Minutes to count down, may be fractional' },
+        label: { type: Type.STRING, description: 'What the timer is for, e.g. "tea"' }
+      },
+      required: ['minutes']
+    }
+  },
+  {
+    name: 'setReminder',
+    description: 'Remind the user about something at a time of day, or after some minutes.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        text: { type: Type.STRING, description: 'What to remind the user about' },
+        time: { type: Type.STRING, description: 'Local time like "18:30" or "7:15 am" (the next one to come), or a full local date-time like "2026-01-31T09:00"' },
+        minutesFromNow: { type: Type.NUMBER, description: 'Instead of time: how many minutes from now' }
+      },
+      required: ['text']
+    }
+  },
+  {
+    name: 'listReminders',
+    description: 'List the pending timers and reminders with their ids.'
+  },
+  {
+    name: 'cancelReminder',
+    description: 'Cancel a pending timer or reminder.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { target: { type: Type.STRING, description: 'The id from listReminders, or words from its label' } },
+      required: ['target']
+    }
+  }
+];
+
+export function isReminderTool(name: string): boolean {
+  return REMINDER_TOOLS.some(t => t.name === name);
+}
+
+// "18:30", "7:15 am", "9pm" -> the next such moment; anything else goes to Date.parse as local time
+export function parseReminderTime(value: string, now = Date.now()): number | null {
+  const clock = value.trim().match(/^(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm)?$/i);
+  if (clock) {
+    let hours = Number(clock[1]);
+    const minutes = Number(clock[2] || 0);
+    const meridiem = clock[3]?.toLowerCase();
+    if (meridiem) {
+      if (hours < 1 || hours > 12) return null;
+      hours = hours % 12 + (meridiem === 'pm' ? 12 : 0);
+    }
+    if (hours > 23 || minutes > 59) return null;
+    const due = new Date(now);
+    due.setHours(hours, minutes, 0, 0);
+    if (due.getTime() <= now) due.setDate(due.getDate() + 1);
+    return due.getTime();
+  }
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+// Turns setTimer/setReminder arguments into a reminder, or an error message for the model
+export function reminderFromArgs(tool: 'setTimer' | 'setReminder', args: Record<string, unknown>, now = Date.now()): Reminder | string {
+  const base = { id: crypto.randomUUID().slice(0, 8), createdAt: now };
+  if (tool === 'setTimer') {
+    const ms = Number(args.minutes) * 60 * 1000;
+    if (!Number.isFinite(ms) || ms <= 0) return 'The timer needs a positive number of minutes.';
+    if (ms > MAX_TIMER_MS) return 'Timers can run for at most 7 days; use setReminder for later.';
+    const label = String(args.label ?? '').trim() || 'Timer';
+    return { ...base, kind: 'timer', label, dueAt: now + ms };
+  }
+  const label = String(args.text ?? '').trim();
+  if (!label) return 'The reminder needs some text.';
+  const minutes = Number(args.minutesFromNow);
+  const dueAt = args.time ? parseReminderTime(String(args.time), now) : Number.isFinite(minutes) && minutes > 0 ? now + minutes * 60 * 1000 : null;
+  if (dueAt === null) return 'Give the reminder a time like "18:30" or a number of minutes from now.';
+  if (dueAt <= now) return 'That time has already passed.';
+  return { ...base, kind: 'reminder', label, dueAt };
+}
+
+// By id first, then by words in the label
+export function findReminder(reminders: Reminder[], target: string): Reminder | undefined {
+  const needle = target.trim().toLowerCase();
+  return reminders.find(r => r.id === needle) || reminders.find(r => needle && r.label.toLowerCase().includes(needle));
+}
+
+export function formatDue(reminder: Reminder, now = Date.now()): string {
+  const due = new Date(reminder.dueAt);
+  const sameDay = due.toDateString() === new Date(now).toDateString();
+  const time = due.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return sameDay ? time : `${due.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })} ${time}`;
+}
+
+export function describeReminders(reminders: Reminder[]): string {
+  if (reminders.length === 0) return 'No pending timers or reminders.';
+  return [...reminders]
+    .sort((a, b) => a.dueAt - b.dueAt)
+    .map(r => `${r.id}: ${r.kind} "${r.label}" at ${formatDue(r)}`)
+    .join('\n');
+}
+
+// What gets said and shown when an item comes due
+export function announcement(reminder: Reminder, now = Date.now()): string {
+  const text = reminder.kind === 'timer' ? `Your ${reminder.label === 'Timer' ? 'timer' : `${reminder.label} timer`} is done!` : `Reminder: ${reminder.label}`;
+  return now - reminder.dueAt > MISSED_AFTER_MS ? `${text} (due at ${formatDue(reminder, now)}, while the app was closed)` : text;
+}
+
+// A desktop notification, if allowed. Chrome on Android only shows them through a service worker and
+// throws "Illegal constructor" otherwise, so that falls back to one if the page has it, or does nothing.
+export function notify(title: string, options: NotificationOptions) {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+  try {
+    new Notification(title, options);
+  } catch {
+    navigator.serviceWorker?.getRegistration()
+      .then(registration => registration?.showNotification(title, options))
+      .catch(e => console.error("Failed to show notification", e));
+  }
+}
+
+// Calls onDue with everything that has come due, waking at the next due time; returns a cancel function
+export function scheduleReminders(reminders: Reminder[], onDue: (due: Reminder[]) => void): () => void {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const arm = () => {
+    if (reminders.length === 0) return;
+    const next = Math.min(...reminders.map(r => r.dueAt));
+    timer = setTimeout(() => {
+      const now = Date.now();
+      const due = reminders.filter(r => r.dueAt <= now);
+      if (due.length) onDue(due);
+      else arm();
+    }, Math.min(Math.max(0, next - Date.now()), MAX_TIMEOUT_MS));
+  };
+  arm();
+  return () => clearTimeout(timer);
+}
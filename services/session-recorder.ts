@@ -0,0 +1,74 @@
+import { encodeWav, resample, OUTPUT_SAMPLE_RATE } from './audio-utils';
+
+interface Segment {
+  speaker: 'user' | 'assistant';
+  // Milliseconds since the recording started
+  at: number;
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+export interface SessionRecorder {
+  // Wall-clock start, for lining the log's message timestamps up with the audio
+  readonly startedAt: number;
+  // capturedAt defaults to now minus the frame's own length
+  addMic(frame: Float32Array, sampleRate: number, capturedAt?: number): void;
+  // Assistant audio goes on the timeline where it is scheduled to play, not when it arrived
+  addAssistant(samples: Float32Array, sampleRate: number, playAt: number): void;
+  // Drops assistant audio that was scheduled but never played, e.g. after an interruption
+  cutAssistant(at?: number): void;
+  durationMs(): number;
+  toWav(sampleRate?: number): Uint8Array;
+}
+
+// Consecutive mic frames closer than this to the previous one are butted together, so timer jitter doesn't click
+const MIC_JOIN_MS = 120;
+
+const lengthMs = (segment: Segment) => segment.samples.length / segment.sampleRate * 1000;
+
+export function createSessionRecorder(): SessionRecorder {
+  const startedAt = Date.now();
+  const segments: Segment[] = [];
+  let micCursor = -Infinity;
+
+  return {
+    startedAt,
+
+    addMic(frame, sampleRate, capturedAt) {
+      const duration = frame.length / sampleRate * 1000;
+      let at = (capturedAt ?? Date.now() - duration) - startedAt;
+      if (Math.abs(at - micCursor) < MIC_JOIN_MS) at = micCursor;
+      micCursor = at + duration;
+      segments.push({ speaker: 'user', at: Math.max(0, at), samples: frame.slice(), sampleRate });
+    },
+
+    addAssistant(samples, sampleRate, playAt) {
+      segments.push({ speaker: 'assistant', at: Math.max(0, playAt - startedAt), samples: samples.slice(), sampleRate });
+    },
+
+    cutAssistant(at = Date.now()) {
+      const cut = at - startedAt;
+      for (let i = segments.length - 1; i >= 0; i--) {
+        const segment = segments[i];
+        if (segment.speaker !== 'assistant' || segment.at + lengthMs(segment) <= cut) continue;
+        if (segment.at >= cut) segments.splice(i, 1);
+        else segment.samples = segment.samples.slice(0, Math.round((cut - segment.at) / 1000 * segment.sampleRate));
+      }
+    },
+
+    durationMs() {
+      return segments.reduce((end, s) => Math.max(end, s.at + lengthMs(s)), 0);
+    },
+
+    // Both voices mixed onto one timeline at a common rate
+    toWav(sampleRate = OUTPUT_SAMPLE_RATE) {
+      const mix = new Float32Array(Math.ceil(this.durationMs() / 1000 * sampleRate));
+      for (const segment of segments) {
+        const samples = resample(segment.samples, segment.sampleRate, sampleRate);
+        const offset = Math.round(segment.at / 1000 * sampleRate);
+        for (let i = 0; i < samples.length && offset + i < mix.length; i++) mix[offset + i] += samples[i];
+      }
+      return encodeWav(mix, sampleRate);
+    }
+  };
+}
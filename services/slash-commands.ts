@@ -0,0 +1,59 @@
+export type SlashCommandName = 'search' | 'yt' | 'music' | 'clear' | 'persona' | 'mode' | 'export';
+
+export interface SlashCommand {
+  name: SlashCommandName;
+  // Shown after the name while typing, e.g. "<query>"
+  args: string;
+  description: string;
+  icon: string;
+  requiresArg: boolean;
+  // Built-in tool the argument is passed to as its query
+  tool?: string;
+}
+
+export const SLASH_COMMANDS: SlashCommand[] = [
+  { name: 'search', args: '<query>', description: 'Search Google', icon: 'fas fa-search', requiresArg: true, tool: 'searchGoogle' },
+  { name: 'yt', args: '<query>', description: 'Search YouTube', icon: 'fab fa-youtube', requiresArg: true, tool: 'openYoutube' },
+  { name: 'music', args: '<track or artist>', description: 'Play on YouTube Music', icon: 'fas fa-music', requiresArg: true, tool: 'playMusic' },
+  { name: 'clear', args: '', description: 'Clear this conversation', icon: 'fas fa-trash-alt', requiresArg: false },
+  { name: 'persona', args: '<name>', description: 'Switch persona', icon: 'fas fa-user', requiresArg: true },
+  { name: 'mode', args: '<gemini | ollama | openai>', description: 'Switch backend', icon: 'fas fa-server', requiresArg: true },
+  { name: 'export', args: '[md | json]', description: 'Download this conversation', icon: 'fas fa-file-export', requiresArg: false }
+];
+
+export interface ParsedCommand {
+  command: SlashCommand;
+  arg: string;
+}
+
+// null for anything that isn't a registered command, such as "/usr/bin is missing", which goes to the model
+export function parseSlashCommand(text: string): ParsedCommand | null {
+  const match = text.trim().match(/^\/(\S+)\s*(.*)$/s);
+  if (!match) return null;
+  const name = match[1].toLowerCase();
+  const command = SLASH_COMMANDS.find(c => c.name === name);
+  return command ? { command, arg: match[2].trim() } : null;
+}
+
+// "//search ..." sends "/search ..." to the model instead of running the command
+export function unescapeCommand(text: string): string {
+  return text.replace(/^(\s*)\/\//, '$1/');
+}
+
+// Commands matching the name being typed; none once the argument has started
+export function suggestCommands(text: string): SlashCommand[] {
+  const match = text.match(/^\/(\S*)$/);
+  if (!match) return [];
+  const prefix = match[1].toLowerCase();
+  return SLASH_COMMANDS.filter(c => c.name.startsWith(prefix));
+}
+
+// The command whose argument is being typed, for the usage hint
+export function commandBeingTyped(text: string): SlashCommand | null {
+  const parsed = /^\/\S+\s/.test(text) ? parseSlashCommand(text) : null;
+  return parsed?.command ?? null;
+}
+
+export function usage(command: SlashCommand): string {
+  return `/${command.name}${command.args ? ` ${command.args}` : ''}`;
+}
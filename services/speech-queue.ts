@@ -0,0 +1,87 @@
+// Sentence enders (including the Devanagari danda) followed by whitespace, or a line break.
+// Requiring the whitespace keeps "3.5" whole and holds back a trailing "." until more text arrives.
+const SENTENCE_BOUNDARY = /[.!?।]+["')\]]*\s+|\n+/g;
+
+// Splits streamed text into finished sentences and the still-growing remainder
+export function splitSentences(text: string): { sentences: string[]; rest: string } {
+  const sentences: string[] = [];
+  let start = 0;
+  for (const match of text.matchAll(SENTENCE_BOUNDARY)) {
+    const end = match.index! + match[0].length;
+    const sentence = text.slice(start, end).trim();
+    if (sentence) sentences.push(sentence);
+    start = end;
+  }
+  return { sentences, rest: text.slice(start) };
+}
+
+export interface SpeechQueue {
+  // Feed a streamed text delta; complete sentences start speaking right away
+  push(delta: string): void;
+  // Speak whatever is left once the stream has finished
+  flush(): void;
+  cancel(): void;
+}
+
+export function createSpeechQueue(
+  configure: (utterance: SpeechSynthesisUtterance) => void,
+  handlers: { onStart?: () => void; onIdle?: () => void; onBoundary?: (event: SpeechSynthesisEvent) => void } = {}
+): SpeechQueue {
+  const pending: string[] = [];
+  let buffered = '';
+  let speaking = false;
+  let cancelled = false;
+  let current: SpeechSynthesisUtterance | null = null;
+
+  const speakNext = () => {
+    const sentence = pending.shift();
+    if (!sentence || cancelled) {
+      speaking = false;
+      current = null;
+      handlers.onIdle?.();
+      return;
+    }
+    if (!speaking) handlers.onStart?.();
+    speaking = true;
+    const utterance = new SpeechSynthesisUtterance(sentence);
+    configure(utterance);
+    if (handlers.onBoundary) utterance.onboundary = handlers.onBoundary;
+    utterance.onend = speakNext;
+    utterance.onerror = speakNext;
+    current = utterance;
+    window.speechSynthesis.speak(utterance);
+  };
+
+  const enqueue = (sentences: string[]) => {
+    if (cancelled || !window.speechSynthesis || sentences.length === 0) return;
+    pending.push(...sentences);
+    if (!speaking) speakNext();
+  };
+
+  return {
+    push(delta) {
+      const { sentences, rest } = splitSentences(buffered + delta);
+      buffered = rest;
+      enqueue(sentences);
+    },
+    flush() {
+      const rest = buffered.trim();
+      buffered = '';
+      if (rest) enqueue([rest]);
+    },
+    cancel() {
+      cancelled = true;
+      pending.length = 0;
+      buffered = '';
+      if (speaking) {
+        // The interrupted utterance still fires onerror; detached, it can't report idle a second time
+        // after a replacement queue has started
+        if (current) current.onend = current.onerror = current.onboundary = null;
+        current = null;
+        window.speechSynthesis?.cancel();
+        speaking = false;
+        handlers.onIdle?.();
+      }
+    }
+  };
+}
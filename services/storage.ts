@@ -0,0 +1,20 @@
+export function loadJSON<T>(key: string, fallback: T): T {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : fallback;
+  } catch (e) {
+    console.error(`Failed to load ${key}`, e);
+    return fallback;
+  }
+}
+
+// Returns false when the value couldn't be stored, usually because the quota is full
+export function saveJSON(key: string, value: unknown): boolean {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+    return true;
+  } catch (e) {
+    console.error(`Failed to save ${key}`, e);
+    return false;
+  }
+}
@@ -0,0 +1,27 @@
+// Yields complete lines from a streamed fetch body (NDJSON and SSE are both line-based)
+export async function* readLines(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffered += decoder.decode(value, { stream: true });
+    let newline = buffered.indexOf('\n');
+    while (newline !== -1) {
+      const line = buffered.slice(0, newline).trim();
+      buffered = buffered.slice(newline + 1);
+      if (line) yield line;
+      newline = buffered.indexOf('\n');
+    }
+  }
+  const rest = (buffered + decoder.decode()).trim();
+  if (rest) yield rest;
+}
+
+export async function ensureOk(response: Response, backend: string): Promise<Response> {
+  if (response.ok) return response;
+  const detail = await response.text().catch(() => '');
+  throw new Error(`${backend} responded ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+}
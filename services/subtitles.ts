@@ -0,0 +1,53 @@
+import { ChatMessage } from '../types';
+
+export interface SubtitleCue {
+  // Milliseconds from the start of the recording
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Roughly how long a line stays up: speaking pace, within sensible bounds
+const MS_PER_WORD = 400;
+const MIN_CUE_MS = 1500;
+const MAX_CUE_MS = 10000;
+
+// One cue per spoken turn in the recorded window, each lasting until the next one starts
+export function cuesFromMessages(
+  messages: ChatMessage[],
+  startedAt: number,
+  endedAt: number,
+  names: { user: string; assistant: string }
+): SubtitleCue[] {
+  const turns = messages.filter(m =>
+    m.role !== 'system' && m.content.trim() && m.timestamp >= startedAt && m.timestamp <= endedAt
+  );
+  return turns.map((m, i) => {
+    const start = m.timestamp - startedAt;
+    const words = m.content.trim().split(/\s+/).length;
+    const natural = Math.min(MAX_CUE_MS, Math.max(MIN_CUE_MS, words * MS_PER_WORD));
+    const next = turns[i + 1] ? turns[i + 1].timestamp - startedAt : endedAt - startedAt;
+    return {
+      start,
+      end: Math.max(start + 1, Math.min(start + natural, next)),
+      text: `${m.role === 'user' ? names.user : names.assistant}: ${m.content.trim()}`
+    };
+  });
+}
+
+function timecode(ms: number, separator: ',' | '.'): string {
+  const total = Math.max(0, Math.round(ms));
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor(total / 60000) % 60;
+  const seconds = Math.floor(total / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(total % 1000, 3)}`;
+}
+
+export function toSrt(cues: SubtitleCue[]): string {
+  return cues.map((c, i) => `${i + 1}\n${timecode(c.start, ',')} --> ${timecode(c.end, ',')}\n${c.text}\n`).join('\n');
+}
+
+export function toVtt(cues: SubtitleCue[]): string {
+  return `WEBVTT\n\n${cues.map(c => `${timecode(c.start, '.')} --> ${timecode(c.end, '.')}\n${c.text}\n`).join('\n')}`;
+}
@@ -0,0 +1,144 @@
+import { FunctionDeclaration, Type } from '@google/genai';
+import { CustomAction } from '../types';
+import { MEMORY_TOOLS } from './memory';
+import { REMINDER_TOOLS } from './reminders';
+
+// What running a tool should do in the browser
+export interface ToolEffect {
+  url?: string;
+  summary: string;
+}
+
+export interface ToolDefinition {
+  declaration: FunctionDeclaration;
+  // Short human name for logs and settings, e.g. "YouTube"
+  label: string;
+  custom?: boolean;
+  // Returns an error message when the arguments are unusable
+  validate: (args: Record<string, unknown>) => string | null;
+  handler: (args: Record<string, unknown>) => ToolEffect;
+}
+
+export interface ToolRegistry {
+  tools: ToolDefinition[];
+  declarations: FunctionDeclaration[];
+  get: (name: string) => ToolDefinition | undefined;
+}
+
+const TOOL_NAME = /^[A-Za-z_][A-Za-z0-9_]{0,63}$/;
+const TEMPLATE_PARAM = /\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+function requireStrings(keys: string[]) {
+  return (args: Record<string, unknown>) => {
+    const missing = keys.filter(k => typeof args[k] !== 'string' || !(args[k] as string).trim());
+    return missing.length ? `Missing argument${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}` : null;
+  };
+}
+
+function queryTool(name: string, label: string, description: string, queryDescription: string, baseUrl: string): ToolDefinition {
+  return {
+    label,
+    declaration: {
+      name,
+      description,
+      parameters: {
+        type: Type.OBJECT,
+        properties: { query: { type: Type.STRING, description: queryDescription } },
+        required: ['query']
+      }
+    },
+    validate: requireStrings(['query']),
+    handler: args => {
+      const query = String(args.query).trim();
+      return { url: `${baseUrl}${encodeURIComponent(query)}`, summary: `${label} "${query}"` };
+    }
+  };
+}
+
+export const BUILTIN_TOOLS: ToolDefinition[] = [
+  queryTool('searchGoogle', 'Google Search', 'Search the web for information.', 'The search term', 'https://www.google.com/search?q='),
+  queryTool('openYoutube', 'YouTube', 'Open YouTube or search for a specific video.', 'The video or channel to find', 'https://www.youtube.com/results?search_query='),
+  queryTool('playMusic', 'YouTube Music', 'Play music from YouTube Music.', 'Track or artist name', 'https://music.youtube.com/search?q='),
+  {
+    label: 'Browser',
+    declaration: {
+      name: 'openWebsite',
+      description: 'Open a website in a new browser tab.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: { url: { type: Type.STRING, description: 'Full http(s) URL of the page' } },
+        required: ['url']
+      }
+    },
+    validate: args => {
+      const missing = requireStrings(['url'])(args);
+      if (missing) return missing;
+      return /^https?:\/\//i.test(String(args.url).trim()) ? null : 'Only http(s) URLs can be opened';
+    },
+    handler: args => {
+      const url = String(args.url).trim();
+      return { url, summary: `Browser ${url}` };
+    }
+  }
+];
+
+export function templateParams(urlTemplate: string): string[] {
+  return [...new Set(Array.from(urlTemplate.matchAll(TEMPLATE_PARAM), m => m[1]))];
+}
+
+// "Open MAL page" -> "openMalPage"
+export function toToolName(label: string): string {
+  const words = label.trim().split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const name = words.map((w, i) => i === 0 ? w.toLowerCase() : w[0].toUpperCase() + w.slice(1).toLowerCase()).join('');
+  return /^[0-9]/.test(name) ? `_${name}` : name;
+}
+
+// Declared next to the registry's tools, so a custom action of the same name would be a duplicate
+// declaration (which Gemini rejects) and would never run
+const RESERVED_TOOL_NAMES = new Set([...BUILTIN_TOOLS.map(t => t.declaration), ...MEMORY_TOOLS, ...REMINDER_TOOLS].map(d => d.name));
+
+export function validateCustomAction(action: CustomAction, existing: CustomAction[]): string | null {
+  if (!action.label.trim()) return 'Give the action a name.';
+  if (!TOOL_NAME.test(action.name)) return 'The name must contain letters or digits.';
+  if (RESERVED_TOOL_NAMES.has(action.name) || existing.some(a => a.name === action.name && a.id !== action.id)) {
+    return `An action called "${action.name}" already exists.`;
+  }
+  if (!/^https?:\/\//i.test(action.urlTemplate.trim())) return 'The URL template must start with http:// or https://';
+  return null;
+}
+
+// Turns a user-defined URL template such as https://myanimelist.net/search/all?q={query} into a tool
+export function customActionTool(action: CustomAction): ToolDefinition {
+  const params = templateParams(action.urlTemplate);
+  return {
+    label: action.label,
+    custom: true,
+    declaration: {
+      name: action.name,
+      description: action.description || action.label,
+      parameters: {
+        type: Type.OBJECT,
+        properties: Object.fromEntries(params.map(p => [p, { type: Type.STRING, description: p }])),
+        required: params
+      }
+    },
+    validate: requireStrings(params),
+    handler: args => {
+      const url = action.urlTemplate.replace(TEMPLATE_PARAM, (_, key) => encodeURIComponent(String(args[key] ?? '').trim()));
+      const values = params.map(p => `"${String(args[p]).trim()}"`).join(' ');
+      return { url, summary: values ? `${action.label} ${values}` : action.label };
+    }
+  };
+}
+
+export function createToolRegistry(customActions: CustomAction[]): ToolRegistry {
+  // Actions saved before a tool of the same name was added are left out
+  const custom = customActions.filter(a => !RESERVED_TOOL_NAMES.has(a.name));
+  const tools = [...BUILTIN_TOOLS, ...custom.map(customActionTool)];
+  const byName = new Map(tools.map(t => [t.declaration.name!, t]));
+  return {
+    tools,
+    declarations: tools.map(t => t.declaration),
+    get: name => byName.get(name)
+  };
+}
@@ -0,0 +1,42 @@
+import { FunctionDeclaration, Schema } from '@google/genai';
+
+export interface JsonSchema {
+  type?: string;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: string[];
+}
+
+export interface OpenAITool {
+  type: 'function';
+  function: { name: string; description?: string; parameters: JsonSchema };
+}
+
+// Gemini's Type enum is upper-case ('STRING'); JSON Schema wants 'string'
+export function toJsonSchema(schema: Schema): JsonSchema {
+  const out: JsonSchema = {};
+  if (schema.type) out.type = schema.type.toLowerCase();
+  if (schema.description) out.description = schema.description;
+  if (schema.enum) out.enum = schema.enum;
+  if (schema.required) out.required = schema.required;
+  if (schema.items) out.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    out.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  return out;
+}
+
+export function toOpenAITools(declarations: FunctionDeclaration[]): OpenAITool[] {
+  return declarations.map(d => ({
+    type: 'function',
+    function: {
+      name: d.name || '',
+      description: d.description || d.parameters?.description,
+      parameters: d.parameters ? toJsonSchema(d.parameters) : { type: 'object', properties: {} }
+    }
+  }));
+}
@@ -0,0 +1,176 @@
+import { Script } from '../types';
+
+// Rough Hindi <-> Hinglish transliteration, good enough for chat display and for feeding a TTS voice
+// text in the script it reads best. Spelling follows casual Hinglish rather than a formal scheme.
+
+const CONSONANTS: Record<string, string> = {
+  'क': 'k', 'ख': 'kh', 'ग': 'g', 'घ': 'gh', 'ङ': 'n',
+  'च': 'ch', 'छ': 'chh', 'ज': 'j', 'झ': 'jh', 'ञ': 'n',
+  'ट': 't', 'ठ': 'th', 'ड': 'd', 'ढ': 'dh', 'ण': 'n',
+  'त': 't', 'थ': 'th', 'द': 'd', 'ध': 'dh', 'न': 'n',
+  'प': 'p', 'फ': 'ph', 'ब': 'b', 'भ': 'bh', 'म': 'm',
+  'य': 'y', 'र': 'r', 'ल': 'l', 'ळ': 'l', 'व': 'v',
+  'श': 'sh', 'ष': 'sh', 'स': 's', 'ह': 'h',
+  'क़': 'q', 'ख़': 'kh', 'ग़': 'gh', 'ज़': 'z', 'ड़': 'r', 'ढ़': 'rh', 'फ़': 'f', 'य़': 'y'
+};
+
+// Letters with a combining nukta, as opposed to the precomposed forms above
+const NUKTA_FORMS: Record<string, string> = { 'क': 'q', 'ख': 'kh', 'ग': 'gh', 'ज': 'z', 'ड': 'r', 'ढ': 'rh', 'फ': 'f' };
+
+const VOWELS: Record<string, string> = {
+  'अ': 'a', 'आ': 'aa', 'इ': 'i', 'ई': 'ee', 'उ': 'u', 'ऊ': 'oo', 'ऋ': 'ri',
+  'ए': 'e', 'ऐ': 'ai', 'ओ': 'o', 'औ': 'au', 'ऑ': 'o', 'ऍ': 'e'
+};
+
+const MATRAS: Record<string, string> = {
+  'ा': 'aa', 'ि': 'i', 'ी': 'ee', 'ु': 'u', 'ू': 'oo', 'ृ': 'ri',
+  'े': 'e', 'ै': 'ai', 'ो': 'o', 'ौ': 'au', 'ॉ': 'o', 'ॅ': 'e'
+};
+
+const NUKTA = '़';
+const VIRAMA = '्';
+const NASALS = new Set(['ँ', 'ं']);
+const VISARGA = 'ः';
+const SHORT_FINAL: Record<string, string> = { aa: 'a', ee: 'i', oo: 'u' };
+
+interface Syllable {
+  consonant: string;
+  // '' after a virama; 'a' is the inherent vowel, which Hindi often drops
+  vowel: string;
+  inherent: boolean;
+  nasal: boolean;
+  visarga: boolean;
+}
+
+function romanizeWord(word: string): string {
+  const chars = Array.from(word);
+  const syllables: Syllable[] = [];
+  for (let i = 0; i < chars.length; i++) {
+    const c = chars[i];
+    const last = syllables[syllables.length - 1];
+    if (CONSONANTS[c]) {
+      syllables.push({ consonant: CONSONANTS[c], vowel: 'a', inherent: true, nasal: false, visarga: false });
+    } else if (c === NUKTA && last && NUKTA_FORMS[chars[i - 1]]) {
+      last.consonant = NUKTA_FORMS[chars[i - 1]];
+    } else if (VOWELS[c]) {
+      syllables.push({ consonant: '', vowel: VOWELS[c], inherent: false, nasal: false, visarga: false });
+    } else if (MATRAS[c] && last) {
+      last.vowel = MATRAS[c];
+      last.inherent = false;
+    } else if (c === VIRAMA && last) {
+      last.vowel = '';
+      last.inherent = false;
+    } else if (NASALS.has(c) && last) {
+      last.nasal = true;
+    } else if (c === VISARGA && last) {
+      last.visarga = true;
+    }
+  }
+
+  // Schwa deletion, right to left: drop the final inherent vowel, and a medial one between a vowel and a full syllable
+  for (let i = syllables.length - 1; i >= 0; i--) {
+    const s = syllables[i];
+    if (!s.inherent || s.nasal || !s.consonant) continue;
+    const isLast = i === syllables.length - 1;
+    const medial = i > 0 && !isLast && !!syllables[i - 1].vowel && !!syllables[i + 1].consonant && !!syllables[i + 1].vowel;
+    if ((isLast && syllables.length > 1) || medial) s.vowel = '';
+  }
+
+  return syllables.map((s, i) => {
+    const isLast = i === syllables.length - 1;
+    let vowel = s.vowel;
+    if (isLast && SHORT_FINAL[vowel] && !(s.nasal && vowel === 'aa')) vowel = SHORT_FINAL[vowel];
+    const next = syllables[i + 1]?.consonant || '';
+    const nasal = s.nasal ? (/^[pbm]/.test(next) ? 'm' : 'n') : '';
+    return `${s.consonant}${vowel}${nasal}${s.visarga ? 'h' : ''}`;
+  }).join('');
+}
+
+export function devanagariToLatin(text: string): string {
+  return text
+    .replace(/[ऀ-ॣॱ-ॿ]+/g, romanizeWord)
+    .replace(/[।॥]/g, '.')
+    .replace(/[०-९]/g, d => String(d.charCodeAt(0) - 0x0966));
+}
+
+// Longest spellings first so "chh" wins over "ch" and "aa" over "a"
+const LATIN_CONSONANTS: [string, string][] = [
+  ['chh', 'छ'], ['kh', 'ख'], ['gh', 'घ'], ['ch', 'च'], ['jh', 'झ'], ['th', 'थ'], ['dh', 'ध'],
+  ['ph', 'फ'], ['bh', 'भ'], ['sh', 'श'], ['k', 'क'], ['g', 'ग'], ['c', 'क'], ['j', 'ज'],
+  ['t', 'त'], ['d', 'द'], ['n', 'न'], ['p', 'प'], ['f', 'फ़'], ['b', 'ब'], ['m', 'म'],
+  ['y', 'य'], ['r', 'र'], ['l', 'ल'], ['v', 'व'], ['w', 'व'], ['s', 'स'], ['h', 'ह'],
+  ['z', 'ज़'], ['q', 'क़'], ['x', 'क्स']
+];
+
+// [spelling, independent vowel, matra]
+const LATIN_VOWELS: [string, string, string][] = [
+  ['aa', 'आ', 'ा'], ['ai', 'ऐ', 'ै'], ['au', 'औ', 'ौ'], ['ee', 'ई', 'ी'], ['ii', 'ई', 'ी'],
+  ['oo', 'ऊ', 'ू'], ['uu', 'ऊ', 'ू'], ['a', 'अ', ''], ['i', 'इ', 'ि'], ['u', 'उ', 'ु'],
+  ['e', 'ए', 'े'], ['o', 'ओ', 'ो']
+];
+
+// Common romanized Hindi words. Only these are converted, so the English in a Hinglish reply stays
+// readable instead of being spelled out phonetically ("how" is not "होव"). Words that are also
+// everyday English ("to", "me", "main", "the", "use") are left out.
+const HINGLISH_WORDS = new Set(`
+  hai hain ho hu hoon hun tha thi hoga hogi honge raha rahi rahe gaya gayi gaye
+  kya kyu kyun kyon kyunki kaise kaisa kaisi kab kahan kaha kahi kaun kaunsa kitna kitni kitne
+  mai mein mujhe tujhe tum tumhe tumhara tumhari tumhare aap aapka aapki aapke hum humein hume
+  hamara hamari hamare mera meri mere tera teri tere uska uski uske iska iski iske unka unki unke unhe inhe
+  yeh ye woh wo vo yahan wahan apna apni apne khud koi kisi kuch kuchh sab sabse logon
+  ka ki ke ko se pe par bhi toh na nahi nahin haan ji aur ya lekin magar agar jab tab phir fir bas sirf
+  abhi aaj kal din raat subah shaam jaldi thoda thodi zyada bahut bohot bilkul zaroor jarur sach sahi galat
+  accha acha achha theek thik badhiya mast naya nayi purana bada badi chhota chhoti
+  kar karo karna karta karti karte kiya diya liya lo lena dena jana jao aana aao aaya aayi
+  dekho dekh suno bolo batao bata samajh samjha pata chahiye sakta sakti sakte wala wali wale liye saath sath
+  yaar bhai didi beta dost pyaar pyar dil ghar kaam khana paani pani shukriya dhanyavaad namaste namaskar arre arey
+`.trim().split(/\s+/));
+
+function devanagariWord(word: string): string {
+  const lower = word.toLowerCase();
+  let out = '';
+  let afterConsonant = false;
+  let i = 0;
+  while (i < lower.length) {
+    const rest = lower.slice(i);
+    const vowel = LATIN_VOWELS.find(([spelling]) => rest.startsWith(spelling));
+    if (vowel) {
+      const [spelling, independent, matra] = vowel;
+      i += spelling.length;
+      const isFinal = i === lower.length;
+      if (!afterConsonant) out += independent;
+      // Hinglish drops the doubled letter at the end of a word: "kya", "hamara", "nahi"
+      else if (isFinal && spelling === 'a') out += 'ा';
+      else if (isFinal && spelling === 'i') out += 'ी';
+      else out += matra;
+      afterConsonant = false;
+      continue;
+    }
+    const consonant = LATIN_CONSONANTS.find(([spelling]) => rest.startsWith(spelling));
+    if (!consonant) {
+      out += lower[i++];
+      afterConsonant = false;
+      continue;
+    }
+    if (afterConsonant) out += VIRAMA;
+    out += consonant[1];
+    i += consonant[0].length;
+    afterConsonant = true;
+  }
+  return out;
+}
+
+// Converts the romanized Hindi words it knows and leaves everything else (English, names, links) as written
+export function latinToDevanagari(text: string): string {
+  return text.split(/(\s+)/).map(chunk =>
+    /^(https?:|www\.)|@/.test(chunk)
+      ? chunk
+      : chunk.replace(/[A-Za-z]+/g, word => HINGLISH_WORDS.has(word.toLowerCase()) ? devanagariWord(word) : word)
+  ).join('');
+}
+
+export function transliterate(text: string, script: Script): string {
+  if (script === 'latin') return devanagariToLatin(text);
+  if (script === 'devanagari') return latinToDevanagari(text);
+  return text;
+}
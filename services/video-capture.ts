@@ -0,0 +1,57 @@
+import { ChatImage } from '../types';
+import { drawScaled, fromDataUrl } from './images';
+
+export type VideoSource = 'camera' | 'screen';
+
+export interface VideoCapture {
+  source: VideoSource;
+  // For a local preview
+  stream: MediaStream;
+  stop: () => void;
+}
+
+export interface VideoCaptureOptions {
+  // The Live API works from about one frame a second; more only costs bandwidth
+  intervalMs?: number;
+  maxSize?: number;
+  quality?: number;
+  // The user ended the share from the browser's own UI
+  onEnded?: () => void;
+}
+
+// Grabs downscaled JPEG stills from the camera or a shared screen at a fixed rate
+export async function startVideoCapture(
+  source: VideoSource,
+  onFrame: (image: ChatImage) => void,
+  { intervalMs = 1000, maxSize = 768, quality = 0.7, onEnded }: VideoCaptureOptions = {}
+): Promise<VideoCapture> {
+  const stream = source === 'camera'
+    ? await navigator.mediaDevices.getUserMedia({ video: { width: { ideal: 1280 }, height: { ideal: 720 } } })
+    : await navigator.mediaDevices.getDisplayMedia({ video: true });
+
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = stream;
+  await video.play();
+
+  const timer = setInterval(() => {
+    if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || !video.videoWidth) return;
+    onFrame(fromDataUrl(drawScaled(video, video.videoWidth, video.videoHeight, maxSize, quality)));
+  }, intervalMs);
+
+  let stopped = false;
+  const stop = () => {
+    if (stopped) return;
+    stopped = true;
+    clearInterval(timer);
+    stream.getTracks().forEach(t => t.stop());
+    video.srcObject = null;
+  };
+  stream.getVideoTracks()[0]?.addEventListener('ended', () => {
+    stop();
+    onEnded?.();
+  });
+
+  return { source, stream, stop };
+}
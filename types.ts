@@ -1,23 +1,179 @@
 
-export enum Personality {
-  MALE = 'MALE',
-  FEMALE = 'FEMALE'
+// Image layers swapped by voice state; any missing layer falls back to the avatar
+export interface PersonaSprites {
+  idle?: string;
+  talking?: string;
+  blinking?: string;
+  thinking?: string;
+}
+
+export interface Persona {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  greeting: string;
+  // Prebuilt Gemini Live voice, e.g. Kore or Puck
+  geminiVoice: string;
+  // speechSynthesis voice name for local backends; empty uses the browser default for the language
+  localVoice: string;
+  rate: number;
+  pitch: number;
+  // BCP-47 tag used for speech recognition and local speech
+  language: string;
+  // http(s) URL or a data: URL of an uploaded image
+  avatarUrl: string;
+  sprites?: PersonaSprites;
+  builtIn?: boolean;
+}
+
+export interface ChatImage {
+  mimeType: string;
+  // Base64 without the data: prefix, as the model APIs take it
+  data: string;
 }
 
 export interface ChatMessage {
   role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp: number;
+  // Set on system lines that render as an action card
+  actionId?: string;
+  // Set on assistant turns the user talked over before they finished
+  interrupted?: boolean;
+  // Pasted or dropped images sent along with a user turn
+  images?: ChatImage[];
 }
 
+// idle: mic off; armed: waiting for speech (or the wake phrase); listening: capturing an utterance
+export type ListenState = 'idle' | 'armed' | 'listening';
+
+export type ConnectionState = 'connecting' | 'open' | 'reconnecting' | 'closed' | 'error';
+
 export interface VoiceState {
   isActive: boolean;
   isThinking: boolean;
   isSpeaking: boolean;
-  transcription: string;
+  // Interim transcripts of the turn in progress, until they are committed to the log
+  userTranscript: string;
+  assistantTranscript: string;
+  listenState: ListenState;
+  connection: ConnectionState;
+  // Why the connection is reconnecting or failed, shown in place of an alert
+  connectionDetail: string;
+}
+
+export interface VoiceSettings {
+  // Keep listening after each reply instead of waiting for the mic button
+  handsFree: boolean;
+  // Only respond after "Hey <persona name>"
+  wakeWord: boolean;
+  // RMS level that counts as speech, and how long silence has to last to end an utterance
+  vadThreshold: number;
+  vadHangoverMs: number;
+  // Talking over a local reply cuts it off. Needs headphones: the speakers would trigger it too.
+  bargeIn: boolean;
+  // BCP-47 tag for recognition, local speech and replies; '' follows the persona
+  language: string;
+  // Script chat text is shown and spoken in
+  script: Script;
+}
+
+// 'original' leaves text as written; the others transliterate Hindi into that script
+export type Script = 'original' | 'latin' | 'devanagari';
+
+// Something the assistant should remember about the user across sessions
+export interface MemoryFact {
+  id: string;
+  text: string;
+  // Saved by the model through its tool, or written in the Memories panel
+  source: 'assistant' | 'user';
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface MemorySettings {
+  enabled: boolean;
+  // Ollama embedding model for searching old conversations, e.g. nomic-embed-text; '' searches by keyword
+  embeddingModel: string;
+}
+
+export interface Reminder {
+  id: string;
+  // A timer counts down a duration; a reminder is due at a time of day
+  kind: 'timer' | 'reminder';
+  label: string;
+  dueAt: number;
+  createdAt: number;
 }
 
 export interface SystemAction {
-  type: 'search' | 'youtube' | 'music' | 'browser';
-  query: string;
+  // Name of a registered tool, e.g. 'searchGoogle' or a custom action
+  tool: string;
+  args: Record<string, unknown>;
+}
+
+// User-defined action that opens a URL built from a template like https://example.com/?q={query}
+export interface CustomAction {
+  id: string;
+  // Tool name exposed to the model
+  name: string;
+  label: string;
+  description: string;
+  urlTemplate: string;
+}
+
+export type BackendKind = 'gemini' | 'ollama' | 'openai';
+
+export interface BackendConfig {
+  endpoint: string;
+  model: string;
+}
+
+export interface BackendSettings {
+  active: BackendKind;
+  configs: Record<BackendKind, BackendConfig>;
+  // Characters of chat history sent with each text request
+  contextBudget: number;
+}
+
+export interface GeminiKeySettings {
+  // 'proxy' goes through the dev/preview server, which holds GEMINI_API_KEY; 'own' calls Gemini with apiKey directly
+  source: 'proxy' | 'own';
+  apiKey: string;
+}
+
+export interface ConversationSummary {
+  text: string;
+  // Timestamp of the newest message folded into the summary
+  coveredUntil: number;
+}
+
+export type ActionPolicy = 'auto' | 'ask' | 'deny';
+
+export type ActionStatus = 'pending' | 'opened' | 'blocked' | 'done' | 'denied' | 'rejected' | 'rate_limited' | 'expired';
+
+export interface ActionRecord {
+  id: string;
+  tool: string;
+  label: string;
+  summary: string;
+  url?: string;
+  // 'user' for quick buttons, 'assistant' for model tool calls
+  source: 'user' | 'assistant';
+  status: ActionStatus;
+  detail?: string;
+  timestamp: number;
+}
+
+export interface Conversation {
+  id: string;
+  // Empty until the user renames it; the UI falls back to the first user message
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  // Persona and backend last used in this conversation, restored when it is reopened
+  personaId: string;
+  backend: BackendKind;
+  messages: ChatMessage[];
+  summary?: ConversationSummary;
 }
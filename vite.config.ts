@@ -1,6 +1,7 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { geminiProxy } from './server/gemini-proxy';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,11 +10,8 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
+      // The key stays on the server; the browser goes through /api/gemini instead of embedding it
+      plugins: [react(), geminiProxy(env.GEMINI_API_KEY)],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),